@@ -1,8 +1,52 @@
-import { useEffect, useMemo, useState } from 'react';
-import { generateAccounts, type GeneratedAccount } from './mpt/account';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  accountEntry,
+  addressToTrieKey,
+  decodeAccountValue,
+  encodeAccountValue,
+  generateAccounts,
+  type GeneratedAccount,
+} from './mpt/account';
+import { bytesToHex, equalBytes, hexToBytes, nibblesFromString, nibblesToString, shortHex, toNibbles } from './mpt/bytes';
+import { EMPTY_TRIE_ROOT } from './mpt/crypto';
+import {
+  generateReceipts,
+  generateTransactions,
+  indexKey,
+  listEntries,
+  summarizeTrieShape,
+  type ListTrieKind,
+} from './mpt/listTrie';
+import { createRawEntry, encodeRawInput, formatRawBytes, rawEntry, type RawEncoding } from './mpt/rawKey';
+import { checkTrieIntegrity, type IntegrityReport } from './mpt/integrity';
+import { lookupInKvStore } from './mpt/asyncTrie';
+import { getMultiProof, multiProofSavings, verifyMultiProof, type MultiProofSavings, type MultiProofVerification } from './mpt/multiproof';
+import { markLiveNodes, type PruneStrategy } from './mpt/prune';
+import { storageRootRef } from './mpt/storage';
 import { describeRoot, buildTrieGraph } from './mpt/trie';
-import { InMemoryKvStore } from './store/kv';
-import { clearIndexedDb, indexedDbAvailable, persistEntriesToIndexedDb } from './store/indexeddb';
+import { diffTries, type TrieDiff } from './mpt/trieDiff';
+import { witnessBatch } from './mpt/witness';
+import { InMemoryKvStore, type DbEntry } from './store/kv';
+import {
+  IndexedDbKvStore,
+  clearIndexedDb,
+  indexedDbAvailable,
+  loadEntriesFromIndexedDb,
+  loadRootHistoryFromIndexedDb,
+  persistEntriesToIndexedDb,
+  persistRootHistoryToIndexedDb,
+} from './store/indexeddb';
+import { NODE_CACHE_CAPACITIES, NodeCache } from './store/nodeCache';
+import { measureStorageGrowth, pathEntriesForRoot, type KvLayout } from './store/pathScheme';
+import { checkSnapshot, StateSnapshot, type SnapshotCheck } from './store/snapshot';
+import {
+  appendRootHistory,
+  historyRootRef,
+  markPrunedHistory,
+  renameHistoryEntry,
+  retainedHistory,
+  type RootHistoryEntry,
+} from './store/rootHistory';
 import { AccountList } from './ui/AccountList';
 import { ControlBar } from './ui/ControlBar';
 import { DbPanel } from './ui/DbPanel';
@@ -10,14 +54,84 @@ import { InfoBar } from './ui/InfoBar';
 import { TriePanel } from './ui/TriePanel';
 import { CommitmentCard } from './ui/components/CommitmentCard';
 import { EventLogPanel } from './ui/components/EventLogPanel';
+import { ExclusionCard } from './ui/components/ExclusionCard';
+import { IntegrityCard } from './ui/components/IntegrityCard';
 import { LessonRail } from './ui/components/LessonRail';
+import { MultiProofCard } from './ui/components/MultiProofCard';
+import { RootHistoryPanel } from './ui/components/RootHistoryPanel';
+import { SnapshotCard } from './ui/components/SnapshotCard';
+import { StorageGrowthCard } from './ui/components/StorageGrowthCard';
+import { TrieDiffCard } from './ui/components/TrieDiffCard';
+import { WitnessCard } from './ui/components/WitnessCard';
 import { buildPedagogicalSteps } from './ui/utils/stepPedagogy';
-import { simulateBuild, simulateLookup, simulateUpdate, type SimulationMode, type SimulationStep } from './mpt/simulator';
+import {
+  OperationRolledBack,
+  simulateBuild,
+  simulateDelete,
+  simulateIterate,
+  simulateLookup,
+  simulateProof,
+  simulatePrune,
+  simulatePut,
+  simulateStorageWrite,
+  simulateUpdate,
+  simulateWitness,
+  type BuildComparison,
+  type BuildMethod,
+  type CommitMode,
+  type IterationKind,
+  type LookupSimulationResult,
+  type LookupTarget,
+  type SimulationMode,
+  type SimulationStep,
+  type StorageView,
+  type WitnessSimulationResult,
+  type WriteComparison,
+} from './mpt/simulator';
+import type { DivergenceKind, KeyMode, KeyValueEntry } from './mpt/types';
 import './index.css';
 
 const DEFAULT_SEED = 1;
 const DEFAULT_COUNT = 8;
 const INITIAL_ACCOUNTS = generateAccounts(DEFAULT_SEED, DEFAULT_COUNT);
+const TRIE_LABELS: Record<KeyMode, { list: string; keys: string }> = {
+  secure: { list: 'Generated accounts', keys: 'keccak(address)' },
+  raw: { list: 'Raw key/value entries', keys: 'raw bytes' },
+  transactions: { list: 'Block transactions', keys: 'rlp(index)' },
+  receipts: { list: 'Block receipts', keys: 'rlp(index)' },
+};
+const INITIAL_RAW_ENTRIES = [
+  ['do', 'verb'],
+  ['dog', 'puppy'],
+  ['doge', 'coin'],
+  ['horse', 'stallion'],
+].map(([key, value]) => createRawEntry(key, value, 'utf8'));
+
+interface AbsenceReport {
+  keyLabel: string;
+  divergence?: DivergenceKind;
+  reason?: string;
+}
+
+interface AppSnapshot {
+  rootRef: Uint8Array;
+  db: InMemoryKvStore;
+  accounts: GeneratedAccount[];
+  rawEntries: KeyValueEntry[];
+  listItems: KeyValueEntry[];
+  rootHistory: RootHistoryEntry[];
+  stateSnapshot: StateSnapshot;
+}
+
+const MAX_UNDO_DEPTH = 50;
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+}
+
+function isListKind(keyMode: KeyMode): keyMode is ListTrieKind {
+  return keyMode === 'transactions' || keyMode === 'receipts';
+}
 
 function selectedAccount(accounts: GeneratedAccount[], address: string): GeneratedAccount | undefined {
   return accounts.find((account) => account.address === address);
@@ -28,8 +142,35 @@ export default function App() {
   const [accountCount, setAccountCount] = useState(DEFAULT_COUNT);
   const [accounts, setAccounts] = useState<GeneratedAccount[]>(INITIAL_ACCOUNTS);
   const [mode, setMode] = useState<SimulationMode>('insert');
+  const [keyMode, setKeyMode] = useState<KeyMode>('secure');
+  const [rawEntries, setRawEntries] = useState<KeyValueEntry[]>(INITIAL_RAW_ENTRIES);
+  const [listItems, setListItems] = useState<KeyValueEntry[]>([]);
+  const [rawKey, setRawKey] = useState('');
+  const [rawValue, setRawValue] = useState('');
+  const [rawEncoding, setRawEncoding] = useState<RawEncoding>('utf8');
+  const [rawError, setRawError] = useState<string>();
   const [selectedAddress, setSelectedAddress] = useState(INITIAL_ACCOUNTS[0]?.address ?? '');
+  const [customAddress, setCustomAddress] = useState('');
+  const [customAddressError, setCustomAddressError] = useState<string>();
+  const [absence, setAbsence] = useState<AbsenceReport>();
+  const [iterateKind, setIterateKind] = useState<IterationKind>('all');
+  const [iterateNibbles, setIterateNibbles] = useState('');
+  const [iterateError, setIterateError] = useState<string>();
   const [updateBalance, setUpdateBalance] = useState(INITIAL_ACCOUNTS[0]?.balance.toString() ?? '0');
+  const [storageSlot, setStorageSlot] = useState('0');
+  const [storageValue, setStorageValue] = useState('42');
+  const [storageError, setStorageError] = useState<string>();
+  const [storageView, setStorageView] = useState<StorageView>();
+  const [pruneStrategy, setPruneStrategy] = useState<PruneStrategy>('mark-sweep');
+  const [retainRoots, setRetainRoots] = useState(1);
+  const [witnessSize, setWitnessSize] = useState(4);
+  const [witnessRun, setWitnessRun] = useState<WitnessSimulationResult>();
+  const [multiProof, setMultiProof] = useState<{ savings: MultiProofSavings[]; verification: MultiProofVerification }>();
+  const [rootHistory, setRootHistory] = useState<RootHistoryEntry[]>([]);
+  const [historyViewId, setHistoryViewId] = useState<number>();
+  const [undoStack, setUndoStack] = useState<AppSnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<AppSnapshot[]>([]);
+  const [prunedEntries, setPrunedEntries] = useState<DbEntry[]>([]);
 
   const [rootRef, setRootRef] = useState<Uint8Array>(new Uint8Array());
   const [db, setDb] = useState<InMemoryKvStore>(() => new InMemoryKvStore());
@@ -42,18 +183,101 @@ export default function App() {
   const [debugMode, setDebugMode] = useState(false);
   const [learningMode, setLearningMode] = useState(true);
   const [useCache, setUseCache] = useState(true);
+  const [cacheCapacity, setCacheCapacity] = useState(NODE_CACHE_CAPACITIES[1]);
+  const [nodeCache] = useState(() => new NodeCache(NODE_CACHE_CAPACITIES[1]));
+  const [commitMode, setCommitMode] = useState<CommitMode>('immediate');
+  const [buildMethod, setBuildMethod] = useState<BuildMethod>('insert');
+  const [buildComparison, setBuildComparison] = useState<BuildComparison>();
+  const [writeComparison, setWriteComparison] = useState<WriteComparison>();
+  const [trieDiff, setTrieDiff] = useState<TrieDiff>();
   const [indexedDbMode, setIndexedDbMode] = useState(false);
+  const [indexedDbStore] = useState(() => new IndexedDbKvStore());
+  const [indexedDbRead, setIndexedDbRead] = useState<{ keyLabel: string; found: boolean; gets: number }>();
+  const [indexedDbReady, setIndexedDbReady] = useState(false);
+  const persistedEntries = useRef<DbEntry[] | undefined>(undefined);
+  const [kvLayout, setKvLayout] = useState<KvLayout>('hash');
+  const [stateSnapshot, setStateSnapshot] = useState(() => new StateSnapshot());
+  const [snapshotLookup, setSnapshotLookup] = useState<LookupSimulationResult>();
+  const [snapshotCheck, setSnapshotCheck] = useState<SnapshotCheck>();
+  const [integrityRun, setIntegrityRun] = useState<{ db: InMemoryKvStore; rootRefHex: string; report: IntegrityReport }>();
+  const [operationError, setOperationError] = useState<string>();
   const [selectedNodeId, setSelectedNodeId] = useState<string>();
   const [manualDbRevealKey, setManualDbRevealKey] = useState<string>();
 
+  const entries = useMemo(
+    () => (keyMode === 'raw' ? rawEntries : isListKind(keyMode) ? listItems : accounts.map(accountEntry)),
+    [accounts, keyMode, listItems, rawEntries],
+  );
   const currentStep = steps.length === 0 ? undefined : steps[Math.min(stepIndex, steps.length - 1)];
-  const displayRootRef = currentStep?.rootRef ?? rootRef;
+  const historyView = historyViewId === undefined ? undefined : rootHistory.find((entry) => entry.id === historyViewId);
+  const displayRootRef = currentStep?.rootRef ?? (historyView ? historyRootRef(historyView) : rootRef);
   const displayEntries = currentStep?.dbEntries ?? db.entries();
+  const writeRootRef = historyView ? rootRef : displayRootRef;
+  const writeEntries = historyView ? db.entries() : displayEntries;
 
+  const activeStorageView = currentStep?.storageView ?? storageView;
+  const graphRootRef = activeStorageView?.rootRef ?? displayRootRef;
   const graph = useMemo(
-    () => buildTrieGraph(displayRootRef, InMemoryKvStore.fromEntries(displayEntries)),
-    [displayEntries, displayRootRef],
+    () => buildTrieGraph(graphRootRef, InMemoryKvStore.fromEntries(displayEntries)),
+    [displayEntries, graphRootRef],
+  );
+  const trieShape = useMemo(() => summarizeTrieShape(graph), [graph]);
+  const retainedRoots = useMemo(() => retainedHistory(rootHistory, retainRoots).map(historyRootRef), [retainRoots, rootHistory]);
+  const liveKeys = useMemo(
+    () =>
+      rootHistory.length === 0
+        ? undefined
+        : markLiveNodes([...retainedRoots, displayRootRef], InMemoryKvStore.fromEntries(displayEntries)),
+    [displayEntries, displayRootRef, retainedRoots, rootHistory.length],
+  );
+  const deletedEntries = useMemo(() => {
+    const present = new Set(displayEntries.map((entry) => entry.keyHex));
+    return prunedEntries.filter((entry) => !present.has(entry.keyHex));
+  }, [displayEntries, prunedEntries]);
+  const pathEntries = useMemo(
+    () => (kvLayout === 'hash' ? [] : pathEntriesForRoot(displayRootRef, InMemoryKvStore.fromEntries(displayEntries))),
+    [displayEntries, displayRootRef, kvLayout],
+  );
+  const storageGrowth = useMemo(
+    () =>
+      kvLayout === 'hash'
+        ? []
+        : measureStorageGrowth(
+            rootHistory
+              .filter((entry) => !entry.pruned)
+              .map((entry) => ({ label: `#${entry.id} ${entry.label}`, rootRef: historyRootRef(entry) })),
+            db,
+          ),
+    [db, kvLayout, rootHistory],
+  );
+  const integrityReport =
+    integrityRun && integrityRun.db === db && integrityRun.rootRefHex === bytesToHex(displayRootRef) ? integrityRun.report : undefined;
+  const corruptKeys = useMemo(
+    () => new Set((integrityReport?.findings ?? []).flatMap((finding) => (finding.dbKeyHex ? [finding.dbKeyHex] : []))),
+    [integrityReport],
   );
+  const storageLinks = useMemo(() => {
+    const links: Record<string, StorageView> = {};
+    if (keyMode !== 'secure' || activeStorageView) {
+      return links;
+    }
+    for (const node of graph.nodes) {
+      if (node.type !== 'leaf' || !node.inspection.valueHex) {
+        continue;
+      }
+      try {
+        const storageRoot = hexToBytes(decodeAccountValue(hexToBytes(node.inspection.valueHex)).storageRootHex);
+        if (equalBytes(storageRoot, EMPTY_TRIE_ROOT)) {
+          continue;
+        }
+        const owner = accounts.find((account) => bytesToHex(account.accountRlp) === node.inspection.valueHex);
+        links[node.id] = { address: owner?.address ?? node.id, rootRef: storageRootRef(storageRoot) };
+      } catch {
+        continue;
+      }
+    }
+    return links;
+  }, [accounts, activeStorageView, graph.nodes, keyMode]);
   const pedSteps = useMemo(() => buildPedagogicalSteps(steps), [steps]);
   const currentPedStep = steps.length === 0 ? undefined : pedSteps[Math.min(stepIndex, pedSteps.length - 1)];
   const rootDisplay = useMemo(() => describeRoot(displayRootRef), [displayRootRef]);
@@ -145,16 +369,84 @@ export default function App() {
   }, [playing, speed, steps.length]);
 
   useEffect(() => {
+    setIndexedDbReady(false);
+    persistedEntries.current = undefined;
     if (!indexedDbMode || !indexedDbAvailable()) {
       return;
     }
-    void persistEntriesToIndexedDb(db.entries());
-  }, [db, indexedDbMode]);
+    let cancelled = false;
+    void Promise.all([loadEntriesFromIndexedDb(), loadRootHistoryFromIndexedDb()])
+      .then(([entries, history]) => {
+        if (cancelled) {
+          return;
+        }
+        const head = history[history.length - 1];
+        if (entries.length > 0 && head) {
+          const restoredDb = InMemoryKvStore.fromEntries(entries);
+          const restoredRoot = historyRootRef(head);
+          pushUndo();
+          restoreSnapshot({
+            ...captureSnapshot(),
+            rootRef: restoredRoot,
+            db: restoredDb,
+            rootHistory: history,
+            stateSnapshot: StateSnapshot.fromTrie(restoredRoot, restoredDb),
+          });
+        }
+        persistedEntries.current = entries;
+        setIndexedDbReady(true);
+      })
+      .catch((error: Error) => setOperationError(`IndexedDB load failed: ${error.message}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [indexedDbMode]);
 
-  const handleGenerate = (): void => {
+  useEffect(() => {
+    const previous = persistedEntries.current;
+    if (!indexedDbReady || !previous) {
+      return;
+    }
+    const entries = db.entries();
+    void persistEntriesToIndexedDb(indexedDbStore, entries, previous).then(
+      () => {
+        if (persistedEntries.current) {
+          persistedEntries.current = entries;
+        }
+      },
+      (error: Error) => setOperationError(`IndexedDB write failed: ${error.message}`),
+    );
+  }, [db, indexedDbReady]);
+
+  useEffect(() => {
+    if (!indexedDbReady) {
+      return;
+    }
+    void persistRootHistoryToIndexedDb(rootHistory).catch((error: Error) => setOperationError(`IndexedDB write failed: ${error.message}`));
+  }, [indexedDbReady, rootHistory]);
+
+  const normalizedSeed = (): number => {
     const parsed = Number.parseInt(seed, 10);
-    const normalizedSeed = Number.isFinite(parsed) ? parsed : DEFAULT_SEED;
-    const generated = generateAccounts(normalizedSeed, accountCount);
+    return Number.isFinite(parsed) ? parsed : DEFAULT_SEED;
+  };
+
+  const generateListItems = (kind: ListTrieKind): KeyValueEntry[] => {
+    const items =
+      kind === 'transactions'
+        ? generateTransactions(normalizedSeed(), accountCount)
+        : generateReceipts(normalizedSeed(), accountCount);
+    const generated = listEntries(kind, items);
+    setListItems(generated);
+    setSelectedAddress(generated[0]?.id ?? '');
+    return generated;
+  };
+
+  const handleGenerate = (): void => {
+    if (isListKind(keyMode)) {
+      generateListItems(keyMode);
+      return;
+    }
+    const generated = generateAccounts(normalizedSeed(), accountCount);
     setAccounts(generated);
     setSelectedAddress(generated[0]?.address ?? '');
     setUpdateBalance(generated[0]?.balance.toString() ?? '0');
@@ -169,14 +461,117 @@ export default function App() {
     setPlaying(false);
   };
 
+  const captureSnapshot = (): AppSnapshot => ({ rootRef, db, accounts, rawEntries, listItems, rootHistory, stateSnapshot });
+
+  const pushUndo = (): void => {
+    setUndoStack((prev) => [...prev, captureSnapshot()].slice(-MAX_UNDO_DEPTH));
+    setRedoStack([]);
+  };
+
+  const restoreSnapshot = (snapshot: AppSnapshot): void => {
+    nodeCache
+      .entries()
+      .filter(({ keyHex }) => snapshot.db.get(keyHex) !== db.get(keyHex))
+      .forEach(({ keyHex }) => nodeCache.delete(keyHex));
+    setRootRef(snapshot.rootRef);
+    setDb(snapshot.db);
+    setAccounts(snapshot.accounts);
+    setRawEntries(snapshot.rawEntries);
+    setListItems(snapshot.listItems);
+    setRootHistory(snapshot.rootHistory);
+    setOperationError(undefined);
+    setStateSnapshot(snapshot.stateSnapshot);
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setHistoryViewId(undefined);
+    setPrunedEntries([]);
+    setTrieDiff(undefined);
+    setWriteComparison(undefined);
+    setBuildComparison(undefined);
+    setStorageView(undefined);
+    setAbsence(undefined);
+    setSteps([]);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+  };
+
+  const handleUndo = (): void => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) {
+      return;
+    }
+    setUndoStack(undoStack.slice(0, -1));
+    setRedoStack([...redoStack, captureSnapshot()]);
+    restoreSnapshot(previous);
+  };
+
+  const handleRedo = (): void => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) {
+      return;
+    }
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack([...undoStack, captureSnapshot()]);
+    restoreSnapshot(next);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const handleBuild = (): void => {
-    if (accounts.length === 0) {
+    if (entries.length === 0) {
       return;
     }
-    const result = simulateBuild(accounts);
+    let buildEntries = entries;
+    let withoutStorage: GeneratedAccount[] | undefined;
+    if (keyMode === 'secure' && accounts.some((account) => !equalBytes(account.storageRoot, EMPTY_TRIE_ROOT))) {
+      withoutStorage = accounts.map((account) => ({
+        ...account,
+        storageRoot: EMPTY_TRIE_ROOT,
+        accountRlp: encodeAccountValue(account.nonce, account.balance),
+      }));
+      buildEntries = withoutStorage.map(accountEntry);
+    }
+    const result = simulateBuild(buildEntries, commitMode, buildMethod);
+    pushUndo();
+    if (withoutStorage) {
+      setAccounts(withoutStorage);
+    }
+    setStorageView(undefined);
     setMode('insert');
     setRootRef(result.rootRef);
     setDb(result.db);
+    setStateSnapshot(result.snapshot);
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setTrieDiff(undefined);
+    setRootHistory(appendRootHistory([], result.rootRef, 'insert', `Build ${buildEntries.length} entries`));
+    setHistoryViewId(undefined);
+    setPrunedEntries([]);
+    setAbsence(undefined);
+    setWriteComparison(result.writeComparison);
+    setBuildComparison(result.buildComparison);
     setSteps(result.steps);
     setStepIndex(0);
     setPlaying(false);
@@ -184,13 +579,67 @@ export default function App() {
     setManualDbRevealKey(undefined);
   };
 
+  const resolveLookupTarget = (): LookupTarget | undefined => {
+    const typed = customAddress.trim().toLowerCase();
+    if (!typed) {
+      setCustomAddressError(undefined);
+      return entries.find((entry) => entry.id === selectedAddress);
+    }
+    if (isListKind(keyMode)) {
+      try {
+        const keyBytes = indexKey(Number(typed));
+        setCustomAddressError(undefined);
+        return { keyLabel: `index ${typed} rlp ${bytesToHex(keyBytes)}`, keyNibbles: toNibbles(keyBytes) };
+      } catch (error) {
+        setCustomAddressError((error as Error).message);
+        return undefined;
+      }
+    }
+    if (keyMode === 'raw') {
+      try {
+        const keyBytes = encodeRawInput(rawEncoding === 'hex' ? typed : customAddress, rawEncoding);
+        setCustomAddressError(undefined);
+        return { keyLabel: formatRawBytes(keyBytes), keyNibbles: toNibbles(keyBytes) };
+      } catch (error) {
+        setCustomAddressError((error as Error).message);
+        return undefined;
+      }
+    }
+    try {
+      const address = typed.startsWith('0x') ? typed : `0x${typed}`;
+      const { keyNibbles } = addressToTrieKey(address);
+      setCustomAddressError(undefined);
+      return { keyLabel: address, keyNibbles };
+    } catch (error) {
+      setCustomAddressError((error as Error).message);
+      return undefined;
+    }
+  };
+
   const handleLookup = (): void => {
-    const picked = selectedAccount(accounts, selectedAddress);
-    if (!picked) {
+    const target = resolveLookupTarget();
+    if (!target) {
       return;
     }
     const baseDb = InMemoryKvStore.fromEntries(displayEntries);
-    const result = simulateLookup(displayRootRef, baseDb, picked, useCache);
+    const result = simulateLookup(
+      displayRootRef,
+      baseDb,
+      target,
+      useCache,
+      keyMode,
+      historyView ? undefined : stateSnapshot,
+      nodeCache,
+    );
+    setSnapshotLookup(result.snapshotRead ? result : undefined);
+    setIndexedDbRead(undefined);
+    if (indexedDbMode && indexedDbAvailable()) {
+      void lookupInKvStore(displayRootRef, target.keyNibbles, indexedDbStore).then(
+        (run) => setIndexedDbRead({ keyLabel: target.keyLabel, found: run.result.found, gets: run.gets }),
+        (error: Error) => setOperationError(`IndexedDB lookup failed: ${error.message}`),
+      );
+    }
+    setAbsence(result.found ? undefined : { keyLabel: target.keyLabel, divergence: result.divergence, reason: result.mismatchReason });
     setSteps(result.steps);
     setStepIndex(0);
     setPlaying(false);
@@ -198,7 +647,48 @@ export default function App() {
     setManualDbRevealKey(undefined);
   };
 
+  const handleRawPut = (): void => {
+    const picked = rawEntries.find((entry) => entry.id === selectedAddress);
+    if (!picked) {
+      return;
+    }
+    let updated: KeyValueEntry;
+    try {
+      updated = rawEntry(hexToBytes(picked.id), encodeRawInput(updateBalance, rawEncoding));
+      setRawError(undefined);
+    } catch (error) {
+      setRawError((error as Error).message);
+      return;
+    }
+    const workingDb = InMemoryKvStore.fromEntries(writeEntries);
+    const workingSnapshot = stateSnapshot.clone();
+    const result = simulatePut(writeRootRef, workingDb, updated, useCache, commitMode, workingSnapshot, nodeCache);
+    pushUndo();
+    setRootRef(result.rootRef);
+    setStateSnapshot(workingSnapshot);
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setTrieDiff(diffTries(writeRootRef, result.rootRef, result.db));
+    setRootHistory((prev) => appendRootHistory(prev, result.rootRef, 'update', `Put ${updated.keyLabel}: ${updated.valueLabel}`));
+    setHistoryViewId(undefined);
+    setDb(result.db);
+    setAbsence(undefined);
+    setWriteComparison(result.writeComparison);
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+    setRawEntries((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+  };
+
   const handleUpdate = (): void => {
+    if (keyMode === 'raw') {
+      handleRawPut();
+      return;
+    }
     const picked = selectedAccount(accounts, selectedAddress);
     if (!picked) {
       return;
@@ -209,10 +699,22 @@ export default function App() {
     } catch {
       return;
     }
-    const workingDb = InMemoryKvStore.fromEntries(displayEntries);
-    const result = simulateUpdate(displayRootRef, workingDb, picked, nextBalance, useCache);
+    const workingDb = InMemoryKvStore.fromEntries(writeEntries);
+    const workingSnapshot = stateSnapshot.clone();
+    const result = simulateUpdate(writeRootRef, workingDb, picked, nextBalance, useCache, commitMode, workingSnapshot, nodeCache);
+    pushUndo();
     setRootRef(result.rootRef);
+    setStateSnapshot(workingSnapshot);
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setTrieDiff(diffTries(writeRootRef, result.rootRef, result.db));
+    setRootHistory((prev) => appendRootHistory(prev, result.rootRef, 'update', `${shortHex(picked.address, 6)} balance ${nextBalance}`));
+    setHistoryViewId(undefined);
     setDb(result.db);
+    setAbsence(undefined);
+    setWriteComparison(result.writeComparison);
     setSteps(result.steps);
     setStepIndex(0);
     setPlaying(false);
@@ -221,17 +723,299 @@ export default function App() {
     setAccounts((prev) => prev.map((entry) => (entry.address === selectedAddress ? result.updatedAccount : entry)));
   };
 
+  const handleStorageWrite = (): void => {
+    const picked = selectedAccount(accounts, selectedAddress);
+    if (!picked) {
+      return;
+    }
+    let slot: bigint;
+    let value: bigint;
+    try {
+      slot = BigInt(storageSlot.trim());
+      value = BigInt(storageValue.trim());
+    } catch {
+      setStorageError('Slot and value must be integers');
+      return;
+    }
+    const workingDb = InMemoryKvStore.fromEntries(writeEntries);
+    const workingSnapshot = stateSnapshot.clone();
+    let result: ReturnType<typeof simulateStorageWrite>;
+    try {
+      result = simulateStorageWrite(writeRootRef, workingDb, picked, slot, value, useCache, workingSnapshot, nodeCache);
+      setStorageError(undefined);
+    } catch (error) {
+      if (error instanceof OperationRolledBack) {
+        setStorageError(undefined);
+        throw error;
+      }
+      setStorageError((error as Error).message);
+      return;
+    }
+    pushUndo();
+    setRootRef(result.rootRef);
+    setStateSnapshot(workingSnapshot);
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setTrieDiff(diffTries(writeRootRef, result.rootRef, result.db));
+    setRootHistory((prev) => appendRootHistory(prev, result.rootRef, 'sstore', `${shortHex(picked.address, 6)} slot ${slot} = ${value}`));
+    setHistoryViewId(undefined);
+    setDb(result.db);
+    setAbsence(undefined);
+    setWriteComparison(undefined);
+    setStorageView(undefined);
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+    setAccounts((prev) => prev.map((entry) => (entry.address === picked.address ? result.updatedAccount : entry)));
+  };
+
+  const handleDelete = (): void => {
+    const picked = entries.find((entry) => entry.id === selectedAddress);
+    if (!picked) {
+      return;
+    }
+    const workingDb = InMemoryKvStore.fromEntries(writeEntries);
+    const workingSnapshot = stateSnapshot.clone();
+    const result = simulateDelete(writeRootRef, workingDb, picked, useCache, workingSnapshot, nodeCache);
+    pushUndo();
+    setRootRef(result.rootRef);
+    setStateSnapshot(workingSnapshot);
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setTrieDiff(diffTries(writeRootRef, result.rootRef, result.db));
+    setRootHistory((prev) => appendRootHistory(prev, result.rootRef, 'delete', `Delete ${picked.keyLabel.startsWith('0x') ? shortHex(picked.keyLabel, 6) : picked.keyLabel}`));
+    setHistoryViewId(undefined);
+    setDb(result.db);
+    setAbsence(undefined);
+    setWriteComparison(undefined);
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+    if (!result.deleted) {
+      return;
+    }
+    if (keyMode !== 'secure') {
+      const remaining = entries.filter((entry) => entry.id !== picked.id);
+      (keyMode === 'raw' ? setRawEntries : setListItems)(remaining);
+      setSelectedAddress(remaining[0]?.id ?? '');
+      return;
+    }
+    const remaining = accounts.filter((entry) => entry.address !== picked.id);
+    setAccounts(remaining);
+    setSelectedAddress(remaining[0]?.address ?? '');
+    setUpdateBalance(remaining[0]?.balance.toString() ?? '0');
+  };
+
+  const handleProve = (): void => {
+    const target = resolveLookupTarget();
+    if (!target) {
+      return;
+    }
+    const proofDb = InMemoryKvStore.fromEntries(displayEntries);
+    const result = simulateProof(displayRootRef, proofDb, target, keyMode);
+    const { verification } = result;
+    const targetPath = nibblesToString(target.keyNibbles);
+    const keys = [target.keyNibbles, ...entries.map((entry) => entry.keyNibbles).filter((key) => nibblesToString(key) !== targetPath)];
+    const counts = [1, 2, 4, 8, 16, 32, 64].filter((count) => count < keys.length).concat(keys.length);
+    setMultiProof({
+      savings: multiProofSavings(displayRootRef, keys, proofDb, counts),
+      verification: verifyMultiProof(hexToBytes(describeRoot(displayRootRef).commitmentHex), getMultiProof(displayRootRef, keys, proofDb)),
+    });
+    setAbsence(
+      verification.status === 'absent'
+        ? { keyLabel: target.keyLabel, divergence: verification.absenceKind, reason: verification.absenceReason }
+        : undefined,
+    );
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+  };
+
+  const handleIterate = (): void => {
+    let nibbles: number[] = [];
+    try {
+      nibbles = iterateKind === 'all' ? [] : nibblesFromString(iterateNibbles.replace(/^0x/i, ''));
+      setIterateError(undefined);
+    } catch (error) {
+      setIterateError((error as Error).message);
+      return;
+    }
+    const result = simulateIterate(
+      displayRootRef,
+      InMemoryKvStore.fromEntries(displayEntries),
+      iterateKind,
+      nibbles,
+      useCache,
+      nodeCache,
+    );
+    setAbsence(undefined);
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+  };
+
+  const handlePrune = (): void => {
+    const workingDb = InMemoryKvStore.fromEntries(writeEntries);
+    const result = simulatePrune(writeRootRef, workingDb, retainedRoots, pruneStrategy);
+    pushUndo();
+    setDb(result.db);
+    setRootHistory((prev) => markPrunedHistory(prev, retainedHistory(prev, retainRoots)));
+    setHistoryViewId(undefined);
+    setPrunedEntries(result.deleted);
+    result.deleted.forEach((entry) => nodeCache.delete(entry.keyHex));
+    setAbsence(undefined);
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+  };
+
+  const handleWitness = (): void => {
+    const result = simulateWitness(writeRootRef, InMemoryKvStore.fromEntries(writeEntries), witnessBatch(entries, witnessSize));
+    setWitnessRun(result);
+    setAbsence(undefined);
+    setSteps(result.steps);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+  };
+
+  const runIntegrityCheck = (checkRootRef: Uint8Array, checkDb: InMemoryKvStore): void => {
+    setIntegrityRun({ db: checkDb, rootRefHex: bytesToHex(checkRootRef), report: checkTrieIntegrity(checkRootRef, checkDb) });
+  };
+
+  const handleFault = (keys: string[], apply: (store: InMemoryKvStore) => unknown): void => {
+    const next = db.clone();
+    if (!apply(next)) {
+      return;
+    }
+    keys.forEach((keyHex) => nodeCache.delete(keyHex));
+    pushUndo();
+    setDb(next);
+    setAbsence(undefined);
+    setOperationError(undefined);
+    setSteps([]);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+    runIntegrityCheck(historyView ? historyRootRef(historyView) : rootRef, next);
+  };
+
+  const guarded =
+    (handler: () => void) =>
+    (): void => {
+      try {
+        handler();
+        setOperationError(undefined);
+      } catch (error) {
+        if (error instanceof OperationRolledBack) {
+          setSteps(error.steps);
+          setStepIndex(0);
+          setPlaying(false);
+          setSelectedNodeId(undefined);
+          setManualDbRevealKey(undefined);
+          setOperationError(`rolled back, DB unchanged. ${error.message}`);
+          return;
+        }
+        setOperationError((error as Error).message);
+      }
+    };
+
+  const handleViewHistory = (id: number | undefined): void => {
+    const entry = id === undefined ? undefined : rootHistory.find((item) => item.id === id);
+    const diff = entry ? diffTries(historyRootRef(entry), rootRef, db) : undefined;
+    setHistoryViewId(entry?.id);
+    setTrieDiff(diff);
+    setStorageView(undefined);
+    setAbsence(undefined);
+    setSteps([]);
+    setStepIndex(0);
+    setPlaying(false);
+    setSelectedNodeId(undefined);
+    setManualDbRevealKey(undefined);
+  };
+
   const handleReset = (): void => {
+    if (rootRef.length > 0) {
+      pushUndo();
+    }
     setRootRef(new Uint8Array());
     setDb(new InMemoryKvStore());
+    nodeCache.clear();
+    setOperationError(undefined);
+    setStateSnapshot(new StateSnapshot());
+    setSnapshotLookup(undefined);
+    setWitnessRun(undefined);
+    setMultiProof(undefined);
+    setSnapshotCheck(undefined);
+    setTrieDiff(undefined);
+    setRootHistory([]);
+    setHistoryViewId(undefined);
+    setPrunedEntries([]);
+    setAbsence(undefined);
+    setWriteComparison(undefined);
+    setBuildComparison(undefined);
+    setStorageView(undefined);
     setSteps([]);
     setStepIndex(0);
     setPlaying(false);
     setSelectedNodeId(undefined);
     setManualDbRevealKey(undefined);
     if (indexedDbMode) {
-      void clearIndexedDb();
+      void clearIndexedDb().catch((error: Error) => setOperationError(`IndexedDB clear failed: ${error.message}`));
+    }
+  };
+
+  const handleAddRawEntry = (): void => {
+    let added: KeyValueEntry;
+    try {
+      added = createRawEntry(rawKey, rawValue, rawEncoding);
+      setRawError(undefined);
+    } catch (error) {
+      setRawError((error as Error).message);
+      return;
     }
+    setRawEntries((prev) => [...prev.filter((entry) => entry.id !== added.id), added]);
+    setSelectedAddress(added.id);
+    setRawKey('');
+    setRawValue('');
+  };
+
+  const handleKeyModeChange = (next: KeyMode): void => {
+    setKeyMode(next);
+    if ((next !== 'secure' && mode === 'sstore') || (isListKind(next) && mode === 'update')) {
+      setMode('insert');
+    }
+    setCustomAddress('');
+    setCustomAddressError(undefined);
+    setRawError(undefined);
+    if (next === 'raw') {
+      setSelectedAddress(rawEntries[0]?.id ?? '');
+      setUpdateBalance('');
+    } else if (isListKind(next)) {
+      generateListItems(next);
+    } else {
+      setSelectedAddress(accounts[0]?.address ?? '');
+      setUpdateBalance(accounts[0]?.balance.toString() ?? '0');
+    }
+    handleReset();
+    setUndoStack([]);
+    setRedoStack([]);
   };
 
   return (
@@ -240,8 +1024,23 @@ export default function App() {
         seed={seed}
         accountCount={accountCount}
         mode={mode}
+        keyMode={keyMode}
+        rawKey={rawKey}
+        rawValue={rawValue}
+        rawEncoding={rawEncoding}
+        rawError={rawError}
         selectedAddress={selectedAddress}
+        customAddress={customAddress}
+        customAddressError={customAddressError}
         updateBalance={updateBalance}
+        storageSlot={storageSlot}
+        storageValue={storageValue}
+        storageError={storageError}
+        iterateKind={iterateKind}
+        iterateNibbles={iterateNibbles}
+        iterateError={iterateError}
+        pruneStrategy={pruneStrategy}
+        retainRoots={retainRoots}
         speed={speed}
         playing={playing}
         canPrev={stepIndex > 0}
@@ -249,13 +1048,21 @@ export default function App() {
         debugMode={debugMode}
         learningMode={learningMode}
         useCache={useCache}
+        commitMode={commitMode}
+        buildMethod={buildMethod}
         indexedDbMode={indexedDbMode}
-        accounts={accounts}
+        kvLayout={kvLayout}
+        entries={entries}
         onSeedChange={setSeed}
         onAccountCountChange={setAccountCount}
         onGenerate={handleGenerate}
-        onBuild={handleBuild}
+        onBuild={guarded(handleBuild)}
         onModeChange={setMode}
+        onKeyModeChange={handleKeyModeChange}
+        onRawKeyChange={setRawKey}
+        onRawValueChange={setRawValue}
+        onRawEncodingChange={setRawEncoding}
+        onAddRawEntry={handleAddRawEntry}
         onSelectAddress={(value) => {
           setSelectedAddress(value);
           const picked = selectedAccount(accounts, value);
@@ -263,8 +1070,23 @@ export default function App() {
             setUpdateBalance(picked.balance.toString());
           }
         }}
-        onLookup={handleLookup}
-        onRunUpdate={handleUpdate}
+        onCustomAddressChange={setCustomAddress}
+        onLookup={guarded(handleLookup)}
+        onRunUpdate={guarded(handleUpdate)}
+        onStorageSlotChange={setStorageSlot}
+        onStorageValueChange={setStorageValue}
+        onStorageWrite={guarded(handleStorageWrite)}
+        onDelete={guarded(handleDelete)}
+        onProve={guarded(handleProve)}
+        onIterateKindChange={setIterateKind}
+        onIterateNibblesChange={setIterateNibbles}
+        onIterate={guarded(handleIterate)}
+        onPruneStrategyChange={setPruneStrategy}
+        onRetainRootsChange={setRetainRoots}
+        onPrune={guarded(handlePrune)}
+        witnessSize={witnessSize}
+        onWitnessSizeChange={setWitnessSize}
+        onWitness={guarded(handleWitness)}
         onUpdateBalanceChange={setUpdateBalance}
         onPrev={() => handleStepChange(stepIndex - 1)}
         onNext={() => handleStepChange(stepIndex + 1)}
@@ -274,16 +1096,68 @@ export default function App() {
         onDebugModeChange={setDebugMode}
         onLearningModeChange={setLearningMode}
         onUseCacheChange={setUseCache}
+        cacheCapacity={cacheCapacity}
+        onCacheCapacityChange={(capacity) => {
+          nodeCache.resize(capacity);
+          setCacheCapacity(capacity);
+        }}
+        onCommitModeChange={setCommitMode}
+        onBuildMethodChange={setBuildMethod}
         onIndexedDbModeChange={setIndexedDbMode}
+        onKvLayoutChange={setKvLayout}
         onReset={handleReset}
+        canUndo={undoStack.length > 0}
+        canRedo={redoStack.length > 0}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
       />
 
-      <AccountList accounts={accounts} selectedAddress={selectedAddress} />
+      <AccountList
+        title={TRIE_LABELS[keyMode].list}
+        entries={entries}
+        selectedId={selectedAddress}
+      />
 
       <div className="state-banner">
         <span>Current mode: {mode}</span>
+        <span>Keys: {TRIE_LABELS[keyMode].keys}</span>
+        {isListKind(keyMode) && (
+          <span>
+            {keyMode === 'transactions' ? 'transactionsRoot' : 'receiptsRoot'}: {shortHex(rootDisplay.commitmentHex, 8)}
+          </span>
+        )}
+        {graph.nodes.length > 0 && (
+          <span>
+            Shape: {trieShape.branches} branch / {trieShape.extensions} ext / {trieShape.leaves} leaf, {trieShape.embedded}{' '}
+            embedded / {trieShape.hashed} hashed, depth {trieShape.maxDepth}
+          </span>
+        )}
         <span>DB backend: {indexedDbMode ? 'memory + IndexedDB mirror' : 'memory'}</span>
+        {indexedDbMode && indexedDbRead && mode === 'lookup' && (
+          <span>
+            IndexedDB lookup of {indexedDbRead.keyLabel.slice(0, 12)}: {indexedDbRead.found ? 'found' : 'absent'} in {indexedDbRead.gets} GETs
+          </span>
+        )}
         <span>Operation steps: {steps.length}</span>
+        {operationError && <span className="state-banner-error">Operation aborted: {operationError}</span>}
+        {historyView && (
+          <span>
+            Viewing past root #{historyView.id}: {historyView.label}
+          </span>
+        )}
+        {writeComparison && (
+          <span>
+            Writes: immediate {writeComparison.immediate.puts} PUTs / {writeComparison.immediate.bytesWritten} B vs deferred{' '}
+            {writeComparison.deferred.puts} PUTs / {writeComparison.deferred.bytesWritten} B
+          </span>
+        )}
+        {buildComparison && (
+          <span>
+            Build: insert loop {buildComparison.insert.puts} PUTs / {buildComparison.insert.orphanedNodes} orphaned / peak{' '}
+            {buildComparison.insert.peakNodes} nodes vs stack trie {buildComparison.stack.puts} PUTs /{' '}
+            {buildComparison.stack.orphanedNodes} orphaned / peak {buildComparison.stack.peakNodes} nodes
+          </span>
+        )}
       </div>
 
       <main className="split-layout">
@@ -291,6 +1165,7 @@ export default function App() {
           graph={graph}
           activeNodeId={effectiveActiveNodeId}
           changedNodeIds={currentStep?.changedNodeIds ?? []}
+          focusNodeIds={currentStep?.proofNodeIds}
           selectedNodeId={selectedNodeId}
           currentStep={currentStep}
           keyNibbles={keyRibbonNibbles}
@@ -300,20 +1175,69 @@ export default function App() {
           playing={playing}
           onSelectNode={(node) => setSelectedNodeId(node.id)}
           onSelectNodeId={setSelectedNodeId}
+          storageView={activeStorageView}
+          storageLinks={storageLinks}
+          onOpenStorage={(view) => {
+            setStorageView(view);
+            setSelectedNodeId(undefined);
+          }}
+          onCloseStorage={storageView ? () => setStorageView(undefined) : undefined}
           debugMode={debugMode}
         />
         <DbPanel
           entries={displayEntries}
+          visibleKeys={currentStep?.proofNodeIds}
           highlightedKey={manualDbRevealKey ?? currentStep?.highlightedDbKey}
           revealKey={manualDbRevealKey}
           dbAction={currentStep?.dbAction}
           referencedBy={referencedBy}
+          liveKeys={liveKeys}
+          deletedEntries={deletedEntries}
+          corruptKeys={corruptKeys}
+          onEditRow={(keyHex, valueHex) => handleFault([keyHex], (store) => store.overwrite(keyHex, valueHex))}
+          onDeleteRow={(keyHex) => handleFault([keyHex], (store) => store.delete(keyHex))}
+          onSwapRows={(keyA, keyB) => handleFault([keyA, keyB], (store) => store.swap(keyA, keyB))}
+          cacheStats={useCache ? nodeCache.stats() : undefined}
+          cacheEntries={useCache ? nodeCache.entries() : undefined}
+          layout={kvLayout}
+          pathEntries={pathEntries}
           activeNodeId={effectiveActiveNodeId}
           learningMode={learningMode}
           debugMode={debugMode}
         />
       </main>
 
+      {rootHistory.length > 0 && (
+        <RootHistoryPanel
+          history={rootHistory}
+          viewingId={historyView?.id}
+          onView={(id) => guarded(() => handleViewHistory(id))()}
+          onRename={(id, label) => setRootHistory((prev) => renameHistoryEntry(prev, id, label))}
+        />
+      )}
+      {rootRef.length > 0 && (
+        <IntegrityCard
+          report={integrityReport}
+          onRun={() => runIntegrityCheck(displayRootRef, db)}
+          onSelect={(finding) => {
+            setSelectedNodeId(finding.nodeId);
+            setManualDbRevealKey(finding.dbKeyHex);
+          }}
+        />
+      )}
+      {(stateSnapshot.size > 0 || snapshotLookup) && (
+        <SnapshotCard
+          rows={stateSnapshot.size}
+          lookup={snapshotLookup}
+          check={snapshotCheck}
+          onCheck={() => setSnapshotCheck(checkSnapshot(stateSnapshot, rootRef, db))}
+        />
+      )}
+      {witnessRun && <WitnessCard result={witnessRun} />}
+      {mode === 'prove' && multiProof && <MultiProofCard savings={multiProof.savings} verification={multiProof.verification} />}
+      {storageGrowth.length > 0 && <StorageGrowthCard samples={storageGrowth} />}
+      {trieDiff && <TrieDiffCard diff={trieDiff} keyMode={keyMode} entries={entries} />}
+
       {learningMode && (
         <>
           <CommitmentCard
@@ -321,6 +1245,7 @@ export default function App() {
             currentRoot={currentRootHex}
             changedNodes={currentStep?.changedNodeIds.length ?? 0}
           />
+          {absence && <ExclusionCard keyLabel={absence.keyLabel} divergence={absence.divergence} reason={absence.reason} />}
           <LessonRail pedStep={currentPedStep} stepIndex={stepIndex} totalSteps={steps.length} />
         </>
       )}
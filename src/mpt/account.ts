@@ -1,11 +1,13 @@
 import { decode as rlpDecode, encode as rlpEncode, type NestedUint8Array } from '@ethereumjs/rlp';
-import { bigintToBytes, bytesToBigint, bytesToHex, hexToBytes, toNibbles } from './bytes';
+import { bigintToBytes, bytesToBigint, bytesToHex, equalBytes, hexToBytes, shortHex, toNibbles } from './bytes';
 import { EMPTY_CODE_HASH, EMPTY_TRIE_ROOT, keccak } from './crypto';
+import type { KeyValueEntry } from './types';
 
 export interface GeneratedAccount {
   address: string;
   balance: bigint;
   nonce: bigint;
+  storageRoot: Uint8Array;
   keyHash: Uint8Array;
   keyNibbles: number[];
   accountRlp: Uint8Array;
@@ -32,7 +34,7 @@ function asBytes(value: Uint8Array | NestedUint8Array): Uint8Array {
   return value;
 }
 
-function mulberry32(seed: number): () => number {
+export function mulberry32(seed: number): () => number {
   let state = seed >>> 0;
   return () => {
     state += 0x6d2b79f5;
@@ -42,7 +44,7 @@ function mulberry32(seed: number): () => number {
   };
 }
 
-function randomBytes(length: number, rng: () => number): Uint8Array {
+export function randomBytes(length: number, rng: () => number): Uint8Array {
   const out = new Uint8Array(length);
   for (let i = 0; i < length; i += 1) {
     out[i] = Math.floor(rng() * 256);
@@ -72,12 +74,20 @@ export function decodeAccountValue(encoded: Uint8Array): DecodedAccountValue {
   };
 }
 
+export function storageRootOfValue(value: Uint8Array): string | undefined {
+  try {
+    const { storageRootHex } = decodeAccountValue(value);
+    return storageRootHex.length === 66 && storageRootHex !== bytesToHex(EMPTY_TRIE_ROOT) ? storageRootHex : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export function addressToTrieKey(addressHex: string): { keyHash: Uint8Array; keyNibbles: number[] } {
-  const normalized = addressHex.startsWith('0x') ? addressHex : `0x${addressHex}`;
-  const addressBytes = hexToBytes(normalized);
-  if (addressBytes.length !== 20) {
-    throw new Error(`Address must be 20 bytes, got ${addressBytes.length}`);
+  if (!/^(0x)?[0-9a-fA-F]{40}$/.test(addressHex)) {
+    throw new Error(`Address must be 40 hex characters, got ${addressHex}`);
   }
+  const addressBytes = hexToBytes(addressHex.startsWith('0x') ? addressHex : `0x${addressHex}`);
   const keyHash = keccak(addressBytes);
   return {
     keyHash,
@@ -85,6 +95,18 @@ export function addressToTrieKey(addressHex: string): { keyHash: Uint8Array; key
   };
 }
 
+export function accountEntry(account: GeneratedAccount): KeyValueEntry {
+  return {
+    id: account.address,
+    keyLabel: account.address,
+    keyNibbles: account.keyNibbles,
+    value: account.accountRlp,
+    valueLabel: equalBytes(account.storageRoot, EMPTY_TRIE_ROOT)
+      ? `balance ${account.balance.toString()}`
+      : `balance ${account.balance.toString()}, storage ${shortHex(bytesToHex(account.storageRoot), 4)}`,
+  };
+}
+
 export function generateAccounts(seed: number, count: number): GeneratedAccount[] {
   const rng = mulberry32(seed);
   const used = new Set<string>();
@@ -103,6 +125,7 @@ export function generateAccounts(seed: number, count: number): GeneratedAccount[
       address,
       balance,
       nonce,
+      storageRoot: EMPTY_TRIE_ROOT,
       keyHash,
       keyNibbles: toNibbles(keyHash),
       accountRlp: encodeAccountValue(nonce, balance),
@@ -0,0 +1,98 @@
+import { bytesToHex, hexToBytes, isNibblePrefix } from './bytes';
+import { decodeTrieNode, nodeReferences } from './nodeCodec';
+import { deleteKey, insertKeyValue, lookupKey, type DeleteOutcome, type InsertOutcome, type LookupOutcome } from './trie';
+import type { NodeRef, TrieNode } from './types';
+import { InMemoryKvStore, type KvBatchOp, type KvStore } from '../store/kv';
+
+export interface KvStoreRun<T> {
+  result: T;
+  gets: number;
+  writes: KvBatchOp[];
+}
+
+interface LoadedPath {
+  rows: InMemoryKvStore;
+  gets: number;
+}
+
+async function loadPath(store: KvStore, rootRef: NodeRef, key: number[], withSiblings: boolean): Promise<LoadedPath> {
+  const rows = new InMemoryKvStore();
+  let gets = 0;
+  const load = async (ref: NodeRef): Promise<TrieNode | undefined> => {
+    if (ref.length === 0) {
+      return undefined;
+    }
+    if (ref.length < 32) {
+      return decodeTrieNode(ref);
+    }
+    const keyHex = bytesToHex(ref);
+    gets += 1;
+    const valueHex = await store.get(keyHex);
+    if (valueHex === undefined) {
+      return undefined;
+    }
+    const node = decodeTrieNode(hexToBytes(valueHex));
+    rows.put(keyHex, valueHex, node.type);
+    return node;
+  };
+
+  let node = await load(rootRef);
+  let remainder = key;
+  while (node && node.type !== 'leaf') {
+    if (node.type === 'extension') {
+      if (!isNibblePrefix(node.path, remainder)) {
+        break;
+      }
+      remainder = remainder.slice(node.path.length);
+      node = await load(node.child);
+      continue;
+    }
+    if (remainder.length === 0) {
+      break;
+    }
+    const { children } = node;
+    const used = children.flatMap((child, index) => (child.length > 0 ? [index] : []));
+    if (withSiblings && used.length <= 2) {
+      for (const index of used.filter((index) => index !== remainder[0])) {
+        await load(children[index]);
+      }
+    }
+    node = await load(children[remainder[0]]);
+    remainder = remainder.slice(1);
+  }
+  return { rows, gets };
+}
+
+export async function runOnKvStore<T>(
+  store: KvStore,
+  rootRef: NodeRef,
+  key: number[],
+  operation: (db: InMemoryKvStore) => T,
+  withSiblings = false,
+): Promise<KvStoreRun<T>> {
+  const { rows, gets } = await loadPath(store, rootRef, key, withSiblings);
+  const loaded = rows.entries().length;
+  const result = operation(rows);
+  const writes: KvBatchOp[] = [];
+  for (const entry of rows.entries().slice(loaded)) {
+    if (await store.put(entry.keyHex, entry.valueHex, entry.nodeType)) {
+      writes.push({ type: 'put', entry });
+      for (const child of nodeReferences(decodeTrieNode(hexToBytes(entry.valueHex)))) {
+        await store.addReference(child, 1);
+      }
+    }
+  }
+  return { result, gets, writes };
+}
+
+export function lookupInKvStore(rootRef: NodeRef, key: number[], store: KvStore): Promise<KvStoreRun<LookupOutcome>> {
+  return runOnKvStore(store, rootRef, key, (db) => lookupKey(rootRef, key, { db }));
+}
+
+export function insertIntoKvStore(rootRef: NodeRef, key: number[], value: Uint8Array, store: KvStore): Promise<KvStoreRun<InsertOutcome>> {
+  return runOnKvStore(store, rootRef, key, (db) => insertKeyValue(rootRef, key, value, { db }));
+}
+
+export function deleteFromKvStore(rootRef: NodeRef, key: number[], store: KvStore): Promise<KvStoreRun<DeleteOutcome>> {
+  return runOnKvStore(store, rootRef, key, (db) => deleteKey(rootRef, key, { db }), true);
+}
@@ -71,6 +71,28 @@ export function nibblesToString(nibbles: number[]): string {
   return nibbles.map((n) => n.toString(16)).join('');
 }
 
+export function nibblesFromString(text: string): number[] {
+  const raw = text.trim().toLowerCase();
+  if (!/^[0-9a-f]*$/.test(raw)) {
+    throw new Error(`Invalid nibble string ${text}`);
+  }
+  return Array.from(raw, (char) => Number.parseInt(char, 16));
+}
+
+export function compareNibbles(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i += 1) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+export function isNibblePrefix(prefix: number[], of: number[]): boolean {
+  return prefix.length <= of.length && prefix.every((nibble, index) => of[index] === nibble);
+}
+
 export function shortHex(hex: string, edge = 8): string {
   const normalized = hex.startsWith('0x') ? hex : `0x${hex}`;
   if (normalized.length <= edge * 2 + 4) {
@@ -0,0 +1,78 @@
+import { accountEntry, generateAccounts } from './account';
+import { bytesToHex } from './bytes';
+import { DeferredTrie } from './deferredTrie';
+import { simulateBuild } from './simulator';
+import { insertKeyValue, lookupKey } from './trie';
+import type { TraceEvent } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+function countPuts(events: TraceEvent[]): number {
+  return events.filter((event) => event.kind === 'db-put').length;
+}
+
+describe('deferred-hashing trie', () => {
+  it('commits the same root as per-insert hashing with fewer DB writes', () => {
+    const accounts = generateAccounts(3, 16);
+    const immediateEvents: TraceEvent[] = [];
+    const immediateDb = new InMemoryKvStore();
+    let immediateRoot: Uint8Array = new Uint8Array();
+    for (const account of accounts) {
+      immediateRoot = insertKeyValue(immediateRoot, account.keyNibbles, account.accountRlp, {
+        db: immediateDb,
+        trace: (event) => immediateEvents.push(event),
+      }).rootRef;
+    }
+
+    const deferredEvents: TraceEvent[] = [];
+    const deferredDb = new InMemoryKvStore();
+    const trie = new DeferredTrie(new Uint8Array(), { db: deferredDb, trace: (event) => deferredEvents.push(event) });
+    for (const account of accounts) {
+      trie.insert(account.keyNibbles, account.accountRlp);
+    }
+    expect(countPuts(deferredEvents)).toBe(0);
+    expect(trie.dirtyNodeCount).toBeGreaterThan(0);
+
+    const committed = trie.commit();
+    expect(bytesToHex(committed.rootRef)).toEqual(bytesToHex(immediateRoot));
+    expect(trie.dirtyNodeCount).toBe(0);
+    expect(countPuts(deferredEvents)).toBeLessThan(countPuts(immediateEvents));
+    expect(deferredDb.entries().length).toBeLessThan(immediateDb.entries().length);
+    for (const account of accounts) {
+      expect(lookupKey(committed.rootRef, account.keyNibbles, { db: deferredDb }).found).toBe(true);
+    }
+  });
+
+  it('updates on top of a committed root and branch values', () => {
+    const keys = [[1, 2], [1, 2, 3], [1, 4], [5]];
+    const db = new InMemoryKvStore();
+    let expected: Uint8Array = new Uint8Array();
+    const trie = new DeferredTrie(new Uint8Array(), { db });
+    for (const key of keys.slice(0, 2)) {
+      trie.insert(key, new Uint8Array([0x30, ...key]));
+      expected = insertKeyValue(expected, key, new Uint8Array([0x30, ...key]), { db }).rootRef;
+    }
+    const first = trie.commit();
+
+    const reopened = new DeferredTrie(first.rootRef, { db });
+    for (const key of keys.slice(2)) {
+      reopened.insert(key, new Uint8Array([0x40, ...key]));
+      expected = insertKeyValue(expected, key, new Uint8Array([0x40, ...key]), { db }).rootRef;
+    }
+    reopened.insert([1, 2], new Uint8Array([0x50]));
+    expected = insertKeyValue(expected, [1, 2], new Uint8Array([0x50]), { db }).rootRef;
+
+    expect(bytesToHex(reopened.commit().rootRef)).toEqual(bytesToHex(expected));
+  });
+
+  it('reports write comparison for both commit modes from the build simulator', () => {
+    const accounts = generateAccounts(5, 12);
+    const immediate = simulateBuild(accounts.map(accountEntry), 'immediate');
+    const deferred = simulateBuild(accounts.map(accountEntry), 'deferred');
+
+    expect(bytesToHex(deferred.rootRef)).toEqual(bytesToHex(immediate.rootRef));
+    expect(deferred.writeComparison).toEqual(immediate.writeComparison);
+    expect(immediate.writeComparison.deferred.puts).toBeLessThan(immediate.writeComparison.immediate.puts);
+    expect(immediate.writeComparison.deferred.bytesWritten).toBeLessThan(immediate.writeComparison.immediate.bytesWritten);
+    expect(deferred.steps.some((step) => step.title === 'COMMIT DIRTY NODES')).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { EMPTY_BYTES, nibblesToString } from './bytes';
+import { commonPrefixLength, finalizeNode, resolveNode, type TrieOperationOptions } from './trie';
+import type { NodeRef, TrieNode } from './types';
+
+interface MemBranch {
+  type: 'branch';
+  children: (MemNode | undefined)[];
+  value: Uint8Array;
+}
+
+type MemNode =
+  | { type: 'clean'; ref: NodeRef }
+  | { type: 'leaf'; path: number[]; value: Uint8Array }
+  | { type: 'extension'; path: number[]; child: MemNode }
+  | MemBranch;
+
+export interface CommitOutcome {
+  rootRef: Uint8Array;
+  changedNodeIds: string[];
+}
+
+function emptyChildren(): (MemNode | undefined)[] {
+  return Array.from({ length: 16 }, () => undefined);
+}
+
+function countDirty(node: MemNode | undefined): number {
+  if (!node || node.type === 'clean') {
+    return 0;
+  }
+  if (node.type === 'leaf') {
+    return 1;
+  }
+  if (node.type === 'extension') {
+    return 1 + countDirty(node.child);
+  }
+  return node.children.reduce((sum, child) => sum + countDirty(child), 1);
+}
+
+export class DeferredTrie {
+  private root: MemNode | undefined;
+  private options: TrieOperationOptions;
+
+  constructor(rootRef: NodeRef, options: TrieOperationOptions) {
+    this.root = rootRef.length === 0 ? undefined : { type: 'clean', ref: rootRef };
+    this.options = options;
+  }
+
+  get dirtyNodeCount(): number {
+    return countDirty(this.root);
+  }
+
+  insert(key: number[], value: Uint8Array): void {
+    this.root = this.insertAt(this.root, key, value, 0);
+    this.options.trace?.({
+      kind: 'decision',
+      message: `Insert ${nibblesToString(key).slice(0, 16)}... in memory: ${this.dirtyNodeCount} dirty nodes unhashed, nothing written`,
+      consumed: key.length,
+      keyRemainder: [],
+    });
+  }
+
+  commit(): CommitOutcome {
+    const changedNodeIds: string[] = [];
+    const rootRef = this.root ? this.commitNode(this.root, [], changedNodeIds) : EMPTY_BYTES;
+    this.root = rootRef.length === 0 ? undefined : { type: 'clean', ref: rootRef };
+    return { rootRef, changedNodeIds };
+  }
+
+  private load(ref: NodeRef, consumed: number, key: number[]): MemNode {
+    const resolved = resolveNode(ref, consumed, key, this.options);
+    const node = resolved.node;
+    if (node.type === 'leaf') {
+      return node;
+    }
+    if (node.type === 'extension') {
+      return { type: 'extension', path: node.path, child: { type: 'clean', ref: node.child } };
+    }
+    return {
+      type: 'branch',
+      children: node.children.map((child) => (child.length === 0 ? undefined : { type: 'clean', ref: child })),
+      value: node.value,
+    };
+  }
+
+  private splitInto(branch: MemBranch, shared: number, key: number[], value: Uint8Array): MemNode {
+    const newRemainder = key.slice(shared);
+    if (newRemainder.length === 0) {
+      branch.value = value;
+    } else {
+      branch.children[newRemainder[0]] = { type: 'leaf', path: newRemainder.slice(1), value };
+    }
+    if (shared === 0) {
+      return branch;
+    }
+    return { type: 'extension', path: key.slice(0, shared), child: branch };
+  }
+
+  private insertAt(node: MemNode | undefined, key: number[], value: Uint8Array, consumed: number): MemNode {
+    if (!node) {
+      return { type: 'leaf', path: key, value };
+    }
+    if (node.type === 'clean') {
+      return this.insertAt(this.load(node.ref, consumed, key), key, value, consumed);
+    }
+
+    if (node.type === 'leaf') {
+      const shared = commonPrefixLength(node.path, key);
+      if (shared === node.path.length && shared === key.length) {
+        return { type: 'leaf', path: node.path, value };
+      }
+      const branch: MemBranch = { type: 'branch', children: emptyChildren(), value: EMPTY_BYTES };
+      const oldRemainder = node.path.slice(shared);
+      if (oldRemainder.length === 0) {
+        branch.value = node.value;
+      } else {
+        branch.children[oldRemainder[0]] = { type: 'leaf', path: oldRemainder.slice(1), value: node.value };
+      }
+      return this.splitInto(branch, shared, key, value);
+    }
+
+    if (node.type === 'extension') {
+      const shared = commonPrefixLength(node.path, key);
+      if (shared === node.path.length) {
+        const child = this.insertAt(node.child, key.slice(shared), value, consumed + shared);
+        return { type: 'extension', path: node.path, child };
+      }
+      const branch: MemBranch = { type: 'branch', children: emptyChildren(), value: EMPTY_BYTES };
+      const oldRemainder = node.path.slice(shared);
+      branch.children[oldRemainder[0]] =
+        oldRemainder.length === 1
+          ? node.child
+          : { type: 'extension', path: oldRemainder.slice(1), child: node.child };
+      return this.splitInto(branch, shared, key, value);
+    }
+
+    const next: MemBranch = { type: 'branch', children: [...node.children], value: node.value };
+    if (key.length === 0) {
+      next.value = value;
+      return next;
+    }
+    next.children[key[0]] = this.insertAt(next.children[key[0]], key.slice(1), value, consumed + 1);
+    return next;
+  }
+
+  private commitNode(node: MemNode, path: number[], changedNodeIds: string[]): NodeRef {
+    if (node.type === 'clean') {
+      return node.ref;
+    }
+
+    let trieNode: TrieNode;
+    if (node.type === 'leaf') {
+      trieNode = node;
+    } else if (node.type === 'extension') {
+      trieNode = { type: 'extension', path: node.path, child: this.commitNode(node.child, [...path, ...node.path], changedNodeIds) };
+    } else {
+      trieNode = {
+        type: 'branch',
+        children: node.children.map((child, index) => (child ? this.commitNode(child, [...path, index], changedNodeIds) : EMPTY_BYTES)),
+        value: node.value,
+      };
+    }
+
+    const finalized = finalizeNode(trieNode, path.length, [], `Commit dirty ${trieNode.type} at path ${nibblesToString(path) || '(root)'}`, this.options);
+    changedNodeIds.push(finalized.id);
+    return finalized.ref;
+  }
+}
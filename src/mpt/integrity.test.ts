@@ -0,0 +1,95 @@
+import { encode as rlpEncode } from '@ethereumjs/rlp';
+import { accountEntry, generateAccounts } from './account';
+import { bytesToHex, hexToBytes } from './bytes';
+import { keccak } from './crypto';
+import { encodeCompactPath } from './hexPrefix';
+import { checkTrieIntegrity } from './integrity';
+import { decodeTrieNode, encodeTrieNode } from './nodeCodec';
+import { markLiveNodes } from './prune';
+import { simulateBuild, simulateLookup, simulateProof } from './simulator';
+import type { TrieNode } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+function withRow(db: InMemoryKvStore, keyHex: string, valueHex?: string): InMemoryKvStore {
+  return InMemoryKvStore.fromEntries(
+    db
+      .entries()
+      .filter((entry) => valueHex !== undefined || entry.keyHex !== keyHex)
+      .map((entry) => (entry.keyHex === keyHex ? { ...entry, valueHex: valueHex! } : entry)),
+  );
+}
+
+describe('trie integrity checker', () => {
+  const built = simulateBuild(generateAccounts(4, 12).map(accountEntry));
+  const rootHex = bytesToHex(built.rootRef);
+  const root = decodeTrieNode(hexToBytes(built.db.get(rootHex)!));
+  const childHex = root.type === 'branch' ? bytesToHex(root.children.find((child) => child.length === 32)!) : '';
+  const live = markLiveNodes([built.rootRef], built.db);
+  const leafRow = built.db.entries().find((entry) => entry.nodeType === 'leaf' && live.has(entry.keyHex))!;
+
+  it('finds nothing in a freshly built trie', () => {
+    expect(checkTrieIntegrity(built.rootRef, built.db)).toEqual({ checkedNodes: live.size, findings: [] });
+  });
+
+  it('reports missing rows, edited bytes and undecodable RLP against the right row and node', () => {
+    const [missing] = checkTrieIntegrity(built.rootRef, withRow(built.db, childHex)).findings;
+    expect(missing).toMatchObject({ kind: 'missing-node', dbKeyHex: childHex, nodeId: rootHex });
+
+    const edited = leafRow.valueHex.slice(0, -2) + (leafRow.valueHex.endsWith('00') ? '01' : '00');
+    const [mismatch] = checkTrieIntegrity(built.rootRef, withRow(built.db, leafRow.keyHex, edited)).findings;
+    expect(mismatch).toMatchObject({ kind: 'hash-mismatch', dbKeyHex: leafRow.keyHex, nodeId: leafRow.keyHex });
+
+    const garbage = checkTrieIntegrity(built.rootRef, withRow(built.db, childHex, '0xc3ffffff')).findings;
+    expect(garbage.map((finding) => finding.kind)).toEqual(['hash-mismatch', 'undecodable']);
+  });
+
+  it('flags invalid hex-prefix flags and non-canonical structure', () => {
+    const leaf = decodeTrieNode(hexToBytes(leafRow.valueHex)) as Extract<TrieNode, { type: 'leaf' }>;
+    const badPath = encodeCompactPath(leaf.path, true);
+    badPath[0] = 0x40 | (badPath[0] & 0x0f);
+    const [flag] = checkTrieIntegrity(
+      built.rootRef,
+      withRow(built.db, leafRow.keyHex, bytesToHex(rlpEncode([badPath, leaf.value]))),
+    ).findings.filter((finding) => finding.kind !== 'hash-mismatch');
+    expect(flag).toMatchObject({ kind: 'invalid-hex-prefix', dbKeyHex: leafRow.keyHex });
+
+    const db = new InMemoryKvStore();
+    const leafRlp = encodeTrieNode({ type: 'leaf', path: new Array(40).fill(3), value: new Uint8Array(20).fill(9) });
+    const children: Uint8Array[] = Array.from({ length: 16 }, () => new Uint8Array());
+    children[5] = keccak(leafRlp);
+    const branchRlp = encodeTrieNode({ type: 'branch', children, value: new Uint8Array() });
+    db.put(bytesToHex(keccak(leafRlp)), bytesToHex(leafRlp), 'leaf');
+    db.put(bytesToHex(keccak(branchRlp)), bytesToHex(branchRlp), 'branch');
+    const [lonely] = checkTrieIntegrity(keccak(branchRlp), db).findings;
+    expect(lonely).toMatchObject({ kind: 'non-canonical', nodeId: bytesToHex(keccak(branchRlp)) });
+    expect(lonely.message).toMatch(/1 child\(ren\) and no value/);
+  });
+
+  it('stops lookups and rejects proofs at the tampered row', () => {
+    const target = generateAccounts(4, 12)
+      .map(accountEntry)
+      .find((entry) => simulateLookup(built.rootRef, built.db, entry, false).steps.some((step) => step.highlightedDbKey === leafRow.keyHex))!;
+    const onPathHex = root.type === 'branch' ? bytesToHex(root.children[target.keyNibbles[0]]) : '';
+
+    const edited = built.db.clone();
+    const original = edited.get(leafRow.keyHex)!;
+    expect(edited.overwrite(leafRow.keyHex, `${original.slice(0, -2)}ff`)?.valueHex).toMatch(/ff$/);
+    const lookup = simulateLookup(built.rootRef, edited, target, false);
+    expect(lookup.found).toBe(false);
+    expect(lookup.mismatchReason).toMatch(/Hash chain broken/);
+    expect(lookup.steps.some((step) => step.highlightedDbKey === leafRow.keyHex && step.log.includes('Hash chain broken'))).toBe(true);
+
+    const proof = simulateProof(built.rootRef, edited, target);
+    expect(proof.verification.status).toBe('invalid');
+    expect(proof.verification.failure).toMatchObject({ kind: 'hash-mismatch', expectedHex: leafRow.keyHex });
+
+    const swapped = built.db.clone();
+    expect(swapped.swap(leafRow.keyHex, childHex)).toBe(true);
+    const kinds = checkTrieIntegrity(built.rootRef, swapped).findings.map((finding) => finding.kind);
+    expect(kinds.filter((kind) => kind === 'hash-mismatch')).toHaveLength(2);
+
+    const dropped = built.db.clone();
+    dropped.delete(onPathHex);
+    expect(simulateProof(built.rootRef, dropped, target).verification.failure?.kind).toBe('missing-node');
+  });
+});
@@ -0,0 +1,156 @@
+import { decode as rlpDecode } from '@ethereumjs/rlp';
+import { storageRootOfValue } from './account';
+import { bytesToHex, equalBytes, hexToBytes, nibblesToString, shortHex } from './bytes';
+import { keccak } from './crypto';
+import { decodeTrieNode, encodeTrieNode, nodeIdFromRef } from './nodeCodec';
+import type { NodeRef, NodeType, TrieNode } from './types';
+import type { InMemoryKvStore } from '../store/kv';
+
+export type IntegrityIssueKind = 'missing-node' | 'hash-mismatch' | 'undecodable' | 'invalid-hex-prefix' | 'non-canonical';
+
+export interface IntegrityFinding {
+  kind: IntegrityIssueKind;
+  message: string;
+  path: number[];
+  owner?: string;
+  dbKeyHex?: string;
+  nodeId?: string;
+}
+
+export interface IntegrityReport {
+  checkedNodes: number;
+  findings: IntegrityFinding[];
+}
+
+interface WalkContext {
+  db: InMemoryKvStore;
+  owner?: string;
+  seen: Set<string>;
+  report: IntegrityReport;
+}
+
+function compactFlagProblem(item: unknown): string | undefined {
+  if (!(item instanceof Uint8Array)) {
+    return 'compact path is a list, not bytes';
+  }
+  if (item.length === 0) {
+    return 'compact path is empty';
+  }
+  const flag = item[0] >> 4;
+  if (flag > 3) {
+    return `hex-prefix flag ${flag} is not one of 0-3`;
+  }
+  if (flag % 2 === 0 && (item[0] & 0x0f) !== 0) {
+    return `even-length path with flag ${flag} has non-zero padding nibble ${(item[0] & 0x0f).toString(16)}`;
+  }
+  return undefined;
+}
+
+function refNodeType(ref: NodeRef, db: InMemoryKvStore): NodeType | undefined {
+  const valueHex = ref.length === 32 ? db.get(bytesToHex(ref)) : bytesToHex(ref);
+  try {
+    return valueHex ? decodeTrieNode(hexToBytes(valueHex)).type : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function structureProblem(node: TrieNode, ref: NodeRef, isRoot: boolean, rlp: Uint8Array, ctx: WalkContext): string | undefined {
+  if (node.type === 'branch') {
+    const children = node.children.filter((child) => child.length > 0).length;
+    if (children + (node.value.length > 0 ? 1 : 0) < 2) {
+      return `branch has ${children} child(ren) and ${node.value.length > 0 ? 'a' : 'no'} value; it should have been collapsed`;
+    }
+  }
+  if (node.type === 'extension') {
+    if (node.path.length === 0) {
+      return 'extension has an empty path';
+    }
+    const childType = refNodeType(node.child, ctx.db);
+    if (childType && childType !== 'branch') {
+      return `extension points at a ${childType}; the two should have been merged`;
+    }
+  }
+  if (!isRoot && ref.length === 32 && rlp.length < 32) {
+    return `node is ${rlp.length} bytes but stored by hash; nodes under 32 bytes must be embedded`;
+  }
+  if (ref.length > 0 && ref.length < 32 && rlp.length >= 32) {
+    return `embedded node is ${rlp.length} bytes; nodes of 32 bytes or more must be hashed`;
+  }
+  if (!equalBytes(encodeTrieNode(node), rlp)) {
+    return 'RLP does not match the canonical encoding of the decoded node';
+  }
+  return undefined;
+}
+
+function checkRef(ref: NodeRef, path: number[], parentId: string | undefined, ctx: WalkContext): void {
+  if (ref.length === 0) {
+    return;
+  }
+  const hashed = ref.length === 32;
+  const keyHex = hashed ? bytesToHex(ref) : undefined;
+  if (keyHex) {
+    if (ctx.seen.has(keyHex)) {
+      return;
+    }
+    ctx.seen.add(keyHex);
+  }
+  const finding = (kind: IntegrityIssueKind, message: string, nodeId?: string) =>
+    ctx.report.findings.push({ kind, message, path, owner: ctx.owner, dbKeyHex: keyHex, nodeId });
+
+  const valueHex = keyHex ? ctx.db.get(keyHex) : bytesToHex(ref);
+  if (!valueHex) {
+    finding('missing-node', `Missing node in DB for hash ${shortHex(keyHex!, 10)}`, parentId);
+    return;
+  }
+  ctx.report.checkedNodes += 1;
+  const rlp = hexToBytes(valueHex);
+  if (hashed && !equalBytes(keccak(rlp), ref)) {
+    finding('hash-mismatch', `Stored value hashes to ${shortHex(bytesToHex(keccak(rlp)), 10)}, not to its key`, keyHex);
+  }
+
+  let node: TrieNode;
+  try {
+    const decoded = rlpDecode(rlp);
+    if (Array.isArray(decoded) && decoded.length === 2) {
+      const problem = compactFlagProblem(decoded[0]);
+      if (problem) {
+        finding('invalid-hex-prefix', problem, parentId);
+        return;
+      }
+    }
+    node = decodeTrieNode(rlp);
+  } catch (error) {
+    finding('undecodable', `Cannot decode node: ${(error as Error).message}`, parentId);
+    return;
+  }
+
+  const nodeId = nodeIdFromRef(ref);
+  const problem = structureProblem(node, ref, path.length === 0, rlp, ctx);
+  if (problem) {
+    finding('non-canonical', problem, nodeId);
+  }
+
+  const checkValue = (value: Uint8Array, fullPath: number[]) => {
+    const storageRoot = ctx.owner ? undefined : storageRootOfValue(value);
+    if (storageRoot) {
+      checkRef(hexToBytes(storageRoot), [], undefined, { ...ctx, owner: nibblesToString(fullPath) });
+    }
+  };
+  if (node.type === 'branch') {
+    node.children.forEach((child, index) => checkRef(child, [...path, index], nodeId, ctx));
+    if (node.value.length > 0) {
+      checkValue(node.value, path);
+    }
+  } else if (node.type === 'extension') {
+    checkRef(node.child, [...path, ...node.path], nodeId, ctx);
+  } else {
+    checkValue(node.value, [...path, ...node.path]);
+  }
+}
+
+export function checkTrieIntegrity(rootRef: NodeRef, db: InMemoryKvStore): IntegrityReport {
+  const report: IntegrityReport = { checkedNodes: 0, findings: [] };
+  checkRef(rootRef, [], undefined, { db, seen: new Set(), report });
+  return report;
+}
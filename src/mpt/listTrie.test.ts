@@ -0,0 +1,40 @@
+import { encode as rlpEncode } from '@ethereumjs/rlp';
+import { accountEntry, generateAccounts } from './account';
+import { bigintToBytes, bytesToHex, toNibbles } from './bytes';
+import { EMPTY_TRIE_ROOT } from './crypto';
+import { buildListTrieRoot, generateTransactions, indexKey, listEntries, summarizeTrieShape } from './listTrie';
+import { simulateBuild } from './simulator';
+import { buildTrieGraph, describeRoot, lookupKey } from './trie';
+
+describe('transactions and receipts tries', () => {
+  it('keys items by rlp(index)', () => {
+    expect(bytesToHex(indexKey(0))).toEqual('0x80');
+    expect(bytesToHex(indexKey(1))).toEqual('0x01');
+    expect(bytesToHex(indexKey(127))).toEqual('0x7f');
+    expect(bytesToHex(indexKey(128))).toEqual('0x8180');
+    expect(() => indexKey(-1)).toThrow('non-negative integer');
+  });
+
+  it('builds the same root through the builder and the playback simulator', () => {
+    expect(bytesToHex(buildListTrieRoot([]))).toEqual(bytesToHex(EMPTY_TRIE_ROOT));
+
+    const items = generateTransactions(3, 20);
+    const built = simulateBuild(listEntries('transactions', items));
+    expect(describeRoot(built.rootRef).commitmentHex).toEqual(bytesToHex(buildListTrieRoot(items)));
+    expect(built.steps.filter((step) => step.title === 'INSERT KEY')).toHaveLength(20);
+
+    const found = lookupKey(built.rootRef, toNibbles(indexKey(0)), { db: built.db });
+    expect(bytesToHex(found.value ?? new Uint8Array())).toEqual(bytesToHex(items[0]));
+  });
+
+  it('produces a shallow index-keyed shape unlike the secure state trie', () => {
+    const small = Array.from({ length: 20 }, (_, index) => rlpEncode([bigintToBytes(index)]));
+    const indexed = simulateBuild(listEntries('receipts', small));
+    const indexedShape = summarizeTrieShape(buildTrieGraph(indexed.rootRef, indexed.db));
+    expect(indexedShape.embedded).toBeGreaterThan(indexedShape.hashed);
+
+    const state = simulateBuild(generateAccounts(3, 20).map(accountEntry));
+    const stateShape = summarizeTrieShape(buildTrieGraph(state.rootRef, state.db));
+    expect(stateShape.embedded).toBe(0);
+  });
+});
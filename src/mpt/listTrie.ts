@@ -0,0 +1,116 @@
+import { decode as rlpDecode, encode as rlpEncode, type NestedUint8Array } from '@ethereumjs/rlp';
+import { mulberry32, randomBytes } from './account';
+import { bigintToBytes, bytesToBigint, bytesToHex, hexToBytes, toNibbles } from './bytes';
+import { describeRoot, insertKeyValue } from './trie';
+import type { KeyMode, KeyValueEntry, TrieGraph } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+export type ListTrieKind = Extract<KeyMode, 'transactions' | 'receipts'>;
+
+export interface TrieShape {
+  branches: number;
+  extensions: number;
+  leaves: number;
+  embedded: number;
+  hashed: number;
+  maxDepth: number;
+}
+
+const ITEM_LABELS: Record<ListTrieKind, string> = {
+  transactions: 'tx',
+  receipts: 'receipt',
+};
+
+function asFields(value: Uint8Array | NestedUint8Array): NestedUint8Array {
+  if (value instanceof Uint8Array) {
+    throw new Error('Expected RLP list for list trie item');
+  }
+  return value;
+}
+
+function fieldBigint(value: Uint8Array | NestedUint8Array | undefined): bigint {
+  return value instanceof Uint8Array ? bytesToBigint(value) : 0n;
+}
+
+export function indexKey(index: number): Uint8Array {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Index must be a non-negative integer, got ${index}`);
+  }
+  return rlpEncode(bigintToBytes(index));
+}
+
+export function generateTransactions(seed: number, count: number): Uint8Array[] {
+  const rng = mulberry32(seed);
+  return Array.from({ length: count }, (_, index) =>
+    rlpEncode([
+      bigintToBytes(index),
+      bigintToBytes(1_000_000_000 + Math.floor(rng() * 9_000_000_000)),
+      bigintToBytes(21_000),
+      randomBytes(20, rng),
+      bigintToBytes(1 + Math.floor(rng() * 9_999_999)),
+      new Uint8Array(),
+      bigintToBytes(27 + Math.floor(rng() * 2)),
+      randomBytes(32, rng),
+      randomBytes(32, rng),
+    ]),
+  );
+}
+
+export function generateReceipts(seed: number, count: number): Uint8Array[] {
+  const rng = mulberry32(seed);
+  let cumulativeGas = 0;
+  return Array.from({ length: count }, () => {
+    cumulativeGas += 21_000 + Math.floor(rng() * 50_000);
+    return rlpEncode([bigintToBytes(rng() < 0.9 ? 1 : 0), bigintToBytes(cumulativeGas), new Uint8Array(256), []]);
+  });
+}
+
+export function describeListItem(kind: ListTrieKind, value: Uint8Array): string {
+  const fields = asFields(rlpDecode(value));
+  if (kind === 'transactions') {
+    return `nonce ${fieldBigint(fields[0])}, value ${fieldBigint(fields[4])} (${value.length} bytes)`;
+  }
+  return `status ${fieldBigint(fields[0])}, cumulative gas ${fieldBigint(fields[1])} (${value.length} bytes)`;
+}
+
+export function listEntries(kind: ListTrieKind, items: Uint8Array[]): KeyValueEntry[] {
+  return items.map((item, index) => {
+    const key = indexKey(index);
+    return {
+      id: bytesToHex(key),
+      keyLabel: `${ITEM_LABELS[kind]} #${index} rlp ${bytesToHex(key)}`,
+      keyNibbles: toNibbles(key),
+      value: item,
+      valueLabel: describeListItem(kind, item),
+    };
+  });
+}
+
+export function buildListTrieRoot(items: Uint8Array[]): Uint8Array {
+  const db = new InMemoryKvStore();
+  let rootRef: Uint8Array = new Uint8Array();
+  items.forEach((item, index) => {
+    rootRef = insertKeyValue(rootRef, toNibbles(indexKey(index)), item, { db }).rootRef;
+  });
+  return hexToBytes(describeRoot(rootRef).commitmentHex);
+}
+
+export function summarizeTrieShape(graph: TrieGraph): TrieShape {
+  const shape: TrieShape = { branches: 0, extensions: 0, leaves: 0, embedded: 0, hashed: 0, maxDepth: 0 };
+  for (const node of graph.nodes) {
+    if (node.type === 'branch') {
+      shape.branches += 1;
+    } else if (node.type === 'extension') {
+      shape.extensions += 1;
+    } else {
+      shape.leaves += 1;
+    }
+    if (node.refKind === 'embedded') {
+      shape.embedded += 1;
+    } else {
+      shape.hashed += 1;
+    }
+    shape.maxDepth = Math.max(shape.maxDepth, node.depth);
+  }
+  return shape;
+}
@@ -0,0 +1,69 @@
+import { generateAccounts } from './account';
+import { equalBytes, hexToBytes } from './bytes';
+import { getMultiProof, multiProofSavings, verifyMultiProof } from './multiproof';
+import { createRawEntry } from './rawKey';
+import { describeRoot, getProof, insertKeyValue } from './trie';
+import { InMemoryKvStore } from '../store/kv';
+
+function buildTrie(entries: { keyNibbles: number[]; value: Uint8Array }[]) {
+  const store = new InMemoryKvStore();
+  let rootRef: Uint8Array = new Uint8Array();
+  for (const entry of entries) {
+    rootRef = insertKeyValue(rootRef, entry.keyNibbles, entry.value, { db: store }).rootRef;
+  }
+  return { store, rootRef, rootHash: hexToBytes(describeRoot(rootRef).commitmentHex) };
+}
+
+describe('multiproofs', () => {
+  const accounts = generateAccounts(9, 32);
+  const { store, rootRef, rootHash } = buildTrie(accounts.map((account) => ({ keyNibbles: account.keyNibbles, value: account.accountRlp })));
+
+  it('proves present and absent keys in one pass with each node shipped once', () => {
+    const absentKey = generateAccounts(10, 1)[0].keyNibbles;
+    const picked = [accounts[3], accounts[17], accounts[3], accounts[29]];
+    const multiProof = getMultiProof(rootRef, [...picked.map((account) => account.keyNibbles), absentKey], store);
+    const verified = verifyMultiProof(rootHash, multiProof);
+
+    expect(multiProof.keys).toHaveLength(4);
+    expect(verified.valid).toBe(true);
+    expect(verified.usedNodes).toBe(multiProof.nodes.length);
+    for (const account of [accounts[3], accounts[17], accounts[29]]) {
+      const result = verified.results.find((item) => equalBytes(new Uint8Array(item.key), new Uint8Array(account.keyNibbles)))!;
+      expect(result.status).toBe('found');
+      expect(equalBytes(result.value!, account.accountRlp)).toBe(true);
+    }
+    expect(verified.results.find((item) => item.key === absentKey)?.status).toBe('absent');
+  });
+
+  it('rejects reordered, tampered, truncated and padded node lists', () => {
+    const multiProof = getMultiProof(rootRef, accounts.slice(0, 6).map((account) => account.keyNibbles), store);
+    const { nodes } = multiProof;
+
+    const swapped = [nodes[0], nodes[2], nodes[1], ...nodes.slice(3)];
+    expect(verifyMultiProof(rootHash, { ...multiProof, nodes: swapped }).reason).toMatch(/does not hash/);
+    const tampered = nodes.map((rlp, index) => (index === 1 ? Uint8Array.from(rlp, (byte, at) => (at === rlp.length - 1 ? byte ^ 1 : byte)) : rlp));
+    expect(verifyMultiProof(rootHash, { ...multiProof, nodes: tampered }).valid).toBe(false);
+    expect(verifyMultiProof(rootHash, { ...multiProof, nodes: nodes.slice(0, -1) }).reason).toMatch(/ran out/);
+    expect(verifyMultiProof(rootHash, { ...multiProof, nodes: [...nodes, nodes[0]] }).reason).toMatch(/unused/);
+  });
+
+  it('handles raw keys with branch values and embedded nodes', () => {
+    const entries = ['do', 'dog', 'doge', 'horse'].map((key) => createRawEntry(key, `${key}-value`, 'utf8'));
+    const raw = buildTrie(entries);
+    const multiProof = getMultiProof(raw.rootRef, entries.map((entry) => entry.keyNibbles), raw.store);
+    const verified = verifyMultiProof(raw.rootHash, multiProof);
+
+    expect(verified.valid).toBe(true);
+    expect(verified.results.map((result) => result.status)).toEqual(['found', 'found', 'found', 'found']);
+  });
+
+  it('grows slower than concatenated single-key proofs', () => {
+    const savings = multiProofSavings(rootRef, accounts.map((account) => account.keyNibbles), store, [1, 4, 16, 32]);
+    const single = getProof(rootRef, accounts[0].keyNibbles, store).proof;
+
+    expect(savings[0]).toMatchObject({ keyCount: 1, naiveNodes: single.length, nodes: single.length });
+    expect(savings.slice(1).every((row) => row.bytes < row.naiveBytes)).toBe(true);
+    const ratios = savings.map((row) => row.bytes / row.naiveBytes);
+    expect(ratios[3]).toBeLessThan(ratios[1]);
+  });
+});
@@ -0,0 +1,170 @@
+import { bytesToHex, compareNibbles, equalBytes, isNibblePrefix, nibblesToString } from './bytes';
+import { EMPTY_TRIE_ROOT, keccak } from './crypto';
+import { decodeTrieNode } from './nodeCodec';
+import { extensionMismatchReason, getProof, leafMismatchReason } from './trie';
+import type { NodeRef, TrieNode } from './types';
+import type { InMemoryKvStore } from '../store/kv';
+
+export interface MultiProof {
+  keys: number[][];
+  nodes: Uint8Array[];
+}
+
+export interface MultiProofKeyResult {
+  key: number[];
+  status: 'found' | 'absent';
+  value?: Uint8Array;
+  absenceReason?: string;
+}
+
+export interface MultiProofVerification {
+  valid: boolean;
+  results: MultiProofKeyResult[];
+  usedNodes: number;
+  reason?: string;
+}
+
+export interface MultiProofSavings {
+  keyCount: number;
+  naiveNodes: number;
+  naiveBytes: number;
+  nodes: number;
+  bytes: number;
+}
+
+function uniqueSortedKeys(keys: number[][]): number[][] {
+  const sorted = [...keys].sort(compareNibbles);
+  return sorted.filter((key, index) => index === 0 || compareNibbles(key, sorted[index - 1]) !== 0);
+}
+
+export function getMultiProof(rootRef: NodeRef, keys: number[][], db: InMemoryKvStore): MultiProof {
+  const sorted = uniqueSortedKeys(keys);
+  const seen = new Set<string>();
+  const nodes: Uint8Array[] = [];
+  for (const key of sorted) {
+    for (const rlp of getProof(rootRef, key, db).proof) {
+      const hashHex = bytesToHex(keccak(rlp));
+      if (!seen.has(hashHex)) {
+        seen.add(hashHex);
+        nodes.push(rlp);
+      }
+    }
+  }
+  return { keys: sorted, nodes };
+}
+
+interface PendingKey {
+  key: number[];
+  remainder: number[];
+}
+
+export function verifyMultiProof(rootHash: Uint8Array, multiProof: MultiProof): MultiProofVerification {
+  const results = new Map<string, MultiProofKeyResult>();
+  let cursor = 0;
+
+  const settle = (pending: PendingKey[], result: Omit<MultiProofKeyResult, 'key'>): void => {
+    pending.forEach(({ key }) => results.set(nibblesToString(key), { key, ...result }));
+  };
+
+  const walk = (ref: NodeRef, pending: PendingKey[], path: number[]): void => {
+    if (ref.length === 0) {
+      settle(pending, { status: 'absent', absenceReason: 'Missing child reference' });
+      return;
+    }
+    let rlp = ref;
+    if (ref.length === 32) {
+      const next = multiProof.nodes[cursor];
+      if (!next) {
+        throw new Error(`Multiproof ran out of nodes at path ${nibblesToString(path) || '(root)'}`);
+      }
+      if (!equalBytes(keccak(next), ref)) {
+        throw new Error(`Multiproof node #${cursor} does not hash to ${bytesToHex(ref)} expected at path ${nibblesToString(path) || '(root)'}`);
+      }
+      cursor += 1;
+      rlp = next;
+    }
+
+    const node: TrieNode = decodeTrieNode(rlp);
+    if (node.type === 'leaf') {
+      pending.forEach(({ key, remainder }) =>
+        results.set(
+          nibblesToString(key),
+          equalBytes(new Uint8Array(node.path), new Uint8Array(remainder))
+            ? { key, status: 'found', value: node.value }
+            : { key, status: 'absent', absenceReason: leafMismatchReason(node.path, remainder) },
+        ),
+      );
+      return;
+    }
+    if (node.type === 'extension') {
+      const matching = pending.filter(({ remainder }) => isNibblePrefix(node.path, remainder));
+      settle(
+        pending.filter((item) => !matching.includes(item)),
+        { status: 'absent', absenceReason: extensionMismatchReason(node.path) },
+      );
+      if (matching.length > 0) {
+        walk(
+          node.child,
+          matching.map(({ key, remainder }) => ({ key, remainder: remainder.slice(node.path.length) })),
+          [...path, ...node.path],
+        );
+      }
+      return;
+    }
+
+    for (const { key } of pending.filter((item) => item.remainder.length === 0)) {
+      results.set(
+        nibblesToString(key),
+        node.value.length > 0
+          ? { key, status: 'found', value: node.value }
+          : { key, status: 'absent', absenceReason: 'Branch value slot empty' },
+      );
+    }
+    for (let index = 0; index < 16; index += 1) {
+      const group = pending.filter(({ remainder }) => remainder[0] === index);
+      if (group.length > 0) {
+        walk(
+          node.children[index],
+          group.map(({ key, remainder }) => ({ key, remainder: remainder.slice(1) })),
+          [...path, index],
+        );
+      }
+    }
+  };
+
+  const pending = uniqueSortedKeys(multiProof.keys).map((key) => ({ key, remainder: key }));
+  try {
+    if (equalBytes(rootHash, EMPTY_TRIE_ROOT)) {
+      settle(pending, { status: 'absent', absenceReason: 'Empty trie' });
+    } else {
+      walk(rootHash, pending, []);
+    }
+    if (cursor < multiProof.nodes.length) {
+      throw new Error(`Multiproof has ${multiProof.nodes.length - cursor} unused node(s) after node #${cursor - 1}`);
+    }
+  } catch (error) {
+    return { valid: false, results: [], usedNodes: cursor, reason: (error as Error).message };
+  }
+  return {
+    valid: true,
+    results: multiProof.keys.map((key) => results.get(nibblesToString(key))!),
+    usedNodes: cursor,
+  };
+}
+
+export function multiProofSavings(rootRef: NodeRef, keys: number[][], db: InMemoryKvStore, counts: number[]): MultiProofSavings[] {
+  return counts
+    .filter((count) => count <= keys.length)
+    .map((keyCount) => {
+      const picked = keys.slice(0, keyCount);
+      const naive = picked.flatMap((key) => getProof(rootRef, key, db).proof);
+      const { nodes } = getMultiProof(rootRef, picked, db);
+      return {
+        keyCount,
+        naiveNodes: naive.length,
+        naiveBytes: naive.reduce((sum, rlp) => sum + rlp.length, 0),
+        nodes: nodes.length,
+        bytes: nodes.reduce((sum, rlp) => sum + rlp.length, 0),
+      };
+    });
+}
@@ -52,4 +52,15 @@ describe('node RLP encode/decode', () => {
       expect(asComparable(decoded)).toEqual(asComparable(node));
     }
   });
+
+  it('inlines embedded children as nested lists', () => {
+    const leaf = encodeTrieNode({ type: 'leaf', path: [5], value: new Uint8Array([0x63, 0x6f, 0x69, 0x6e]) });
+    const children: Uint8Array[] = Array.from({ length: 16 }, () => new Uint8Array());
+    children[6] = leaf;
+    const branch: TrieNode = { type: 'branch', children, value: new Uint8Array([0x70]) };
+
+    const encoded = encodeTrieNode(branch);
+    expect(Array.from(encoded.subarray(7, 7 + leaf.length))).toEqual(Array.from(leaf));
+    expect(asComparable(decodeTrieNode(encoded))).toEqual(asComparable(branch));
+  });
 });
@@ -1,4 +1,5 @@
 import { decode as rlpDecode, encode as rlpEncode, type NestedUint8Array } from '@ethereumjs/rlp';
+import { storageRootOfValue } from './account';
 import { bytesToHex, nibblesToString, shortHex } from './bytes';
 import { keccak } from './crypto';
 import { decodeCompactPath, encodeCompactPath } from './hexPrefix';
@@ -18,6 +19,14 @@ function asBytes(value: Uint8Array | NestedUint8Array): Uint8Array {
   return value;
 }
 
+function encodeChildRef(ref: NodeRef): Uint8Array | NestedUint8Array {
+  return ref.length > 0 && ref.length < 32 ? rlpDecode(ref) : ref;
+}
+
+function decodeChildRef(item: Uint8Array | NestedUint8Array): NodeRef {
+  return item instanceof Uint8Array ? item : rlpEncode(item);
+}
+
 export function refKindFromRef(ref: NodeRef): RefKind {
   if (ref.length === 0) {
     return 'empty';
@@ -40,18 +49,18 @@ export function encodeTrieNode(node: TrieNode): Uint8Array {
     if (node.children.length !== 16) {
       throw new Error('Branch node must have 16 children slots');
     }
-    return rlpEncode([...node.children, node.value]);
+    return rlpEncode([...node.children.map(encodeChildRef), node.value]);
   }
   if (node.type === 'leaf') {
     return rlpEncode([encodeCompactPath(node.path, true), node.value]);
   }
-  return rlpEncode([encodeCompactPath(node.path, false), node.child]);
+  return rlpEncode([encodeCompactPath(node.path, false), encodeChildRef(node.child)]);
 }
 
 export function decodeTrieNode(encoded: Uint8Array): TrieNode {
   const decoded = asList(rlpDecode(encoded));
   if (decoded.length === 17) {
-    const children = decoded.slice(0, 16).map((item) => asBytes(item));
+    const children = decoded.slice(0, 16).map(decodeChildRef);
     const value = asBytes(decoded[16]);
     return {
       type: 'branch',
@@ -63,18 +72,17 @@ export function decodeTrieNode(encoded: Uint8Array): TrieNode {
     throw new Error(`Invalid node decoded length ${decoded.length}`);
   }
   const path = decodeCompactPath(asBytes(decoded[0]));
-  const second = asBytes(decoded[1]);
   if (path.isLeaf) {
     return {
       type: 'leaf',
       path: path.nibbles,
-      value: second,
+      value: asBytes(decoded[1]),
     };
   }
   return {
     type: 'extension',
     path: path.nibbles,
-    child: second,
+    child: decodeChildRef(decoded[1]),
   };
 }
 
@@ -154,3 +162,26 @@ export function normalizeNodeType(type: string): NodeType | 'unknown' {
   }
   return 'unknown';
 }
+
+export function collectRefs(ref: NodeRef, out: string[]): void {
+  if (ref.length === 32) {
+    out.push(bytesToHex(ref));
+  } else if (ref.length > 0) {
+    out.push(...nodeReferences(decodeTrieNode(ref)));
+  }
+}
+
+export function nodeReferences(node: TrieNode): string[] {
+  const out: string[] = [];
+  if (node.type === 'branch') {
+    node.children.forEach((child) => collectRefs(child, out));
+  } else if (node.type === 'extension') {
+    collectRefs(node.child, out);
+  }
+  const value = node.type === 'extension' ? undefined : node.value;
+  const storageRoot = value && value.length > 0 ? storageRootOfValue(value) : undefined;
+  if (storageRoot) {
+    out.push(storageRoot);
+  }
+  return out;
+}
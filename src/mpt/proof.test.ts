@@ -0,0 +1,95 @@
+import { addressToTrieKey, generateAccounts } from './account';
+import { equalBytes, hexToBytes } from './bytes';
+import { EMPTY_TRIE_ROOT, keccak } from './crypto';
+import { verifyProof } from './proof';
+import { describeRoot, getProof, insertKeyValue } from './trie';
+import { InMemoryKvStore } from '../store/kv';
+
+function buildTrie(seed: number, count: number) {
+  const accounts = generateAccounts(seed, count);
+  const store = new InMemoryKvStore();
+  let rootRef: Uint8Array = new Uint8Array();
+  for (const account of accounts) {
+    rootRef = insertKeyValue(rootRef, account.keyNibbles, account.accountRlp, { db: store }).rootRef;
+  }
+  const rootHash = hexToBytes(describeRoot(rootRef).commitmentHex);
+  return { accounts, store, rootRef, rootHash };
+}
+
+describe('stateless proof verification', () => {
+  it('verifies inclusion proofs using only the root hash and proof bytes', () => {
+    const { accounts, store, rootRef, rootHash } = buildTrie(42, 16);
+
+    for (const account of accounts) {
+      const { proof } = getProof(rootRef, account.keyNibbles, store);
+      const verified = verifyProof(rootHash, account.keyNibbles, proof);
+      expect(verified.status).toBe('found');
+      expect(equalBytes(verified.value!, account.accountRlp)).toBe(true);
+    }
+  });
+
+  it('accepts exclusion proofs for absent keys', () => {
+    const { store, rootRef, rootHash } = buildTrie(42, 16);
+    const absentKey = Array.from({ length: 64 }, (_, index) => index % 16);
+
+    const generated = getProof(rootRef, absentKey, store);
+    const verified = verifyProof(rootHash, absentKey, generated.proof);
+    expect(verified.status).toBe('absent');
+    expect(verified.absenceReason).toEqual(generated.mismatchReason);
+    expect(verified.absenceKind).toEqual(generated.divergence);
+  });
+
+  it('handles empty and embedded roots', () => {
+    expect(verifyProof(EMPTY_TRIE_ROOT, [1, 2], []).status).toBe('absent');
+
+    const store = new InMemoryKvStore();
+    const rootRef = insertKeyValue(new Uint8Array(), [1, 2], new Uint8Array([0x01]), { db: store }).rootRef;
+    const { proof } = getProof(rootRef, [1, 2], store);
+    expect(rootRef.length).toBeLessThan(32);
+    expect(verifyProof(keccak(rootRef), [1, 2], proof).status).toBe('found');
+  });
+
+  it('reports a hash mismatch for a tampered proof node', () => {
+    const { accounts, store, rootRef, rootHash } = buildTrie(42, 16);
+    const { proof } = getProof(rootRef, accounts[0].keyNibbles, store);
+    const tampered = proof.map((rlp) => new Uint8Array(rlp));
+    const last = tampered[tampered.length - 1];
+    last[last.length - 1] ^= 0x01;
+
+    const verified = verifyProof(rootHash, accounts[0].keyNibbles, tampered);
+    expect(verified.status).toBe('invalid');
+    expect(verified.failure?.kind).toBe('hash-mismatch');
+    expect(verified.failure?.proofIndex).toBe(tampered.length - 1);
+  });
+
+  it('reports a missing node for a truncated proof', () => {
+    const { accounts, store, rootRef, rootHash } = buildTrie(42, 16);
+    const { proof } = getProof(rootRef, accounts[0].keyNibbles, store);
+
+    const verified = verifyProof(rootHash, accounts[0].keyNibbles, proof.slice(0, -1));
+    expect(verified.status).toBe('invalid');
+    expect(verified.failure?.kind).toBe('missing-node');
+  });
+
+  it('reports path divergence for a proof of a different key', () => {
+    const { accounts, store, rootRef, rootHash } = buildTrie(42, 16);
+    const other = accounts.find((account) => account.keyNibbles[0] !== accounts[0].keyNibbles[0])!;
+    const { proof } = getProof(rootRef, other.keyNibbles, store);
+
+    const verified = verifyProof(rootHash, accounts[0].keyNibbles, proof);
+    expect(verified.status).toBe('invalid');
+    expect(verified.failure?.kind).toBe('path-divergence');
+  });
+});
+
+describe('arbitrary address keys', () => {
+  it('hashes a 20-byte address with or without the 0x prefix', () => {
+    const [account] = generateAccounts(3, 1);
+    expect(addressToTrieKey(account.address).keyNibbles).toEqual(account.keyNibbles);
+    expect(addressToTrieKey(account.address.slice(2).toUpperCase()).keyNibbles).toEqual(account.keyNibbles);
+  });
+
+  it.each(['0xzz' + '11'.repeat(19), '0x' + '1'.repeat(39), '0x' + '1'.repeat(42), ''])('rejects malformed address %s', (address) => {
+    expect(() => addressToTrieKey(address)).toThrow(/40 hex characters/);
+  });
+});
@@ -0,0 +1,181 @@
+import { bytesToHex, equalBytes, nibblesToString } from './bytes';
+import { EMPTY_TRIE_ROOT, keccak } from './crypto';
+import { decodeTrieNode, inspectNode, nodeIdFromRef } from './nodeCodec';
+import { extensionMismatchReason, leafMismatchReason } from './trie';
+import type { DivergenceKind, NodeRef, TraceEvent, TrieNode } from './types';
+
+export type ProofFailureKind = 'hash-mismatch' | 'missing-node' | 'path-divergence' | 'invalid-node';
+
+export interface ProofFailure {
+  kind: ProofFailureKind;
+  message: string;
+  consumed: number;
+  proofIndex?: number;
+  expectedHex?: string;
+  actualHex?: string;
+}
+
+export interface ProofVerification {
+  status: 'found' | 'absent' | 'invalid';
+  value?: Uint8Array;
+  absenceReason?: string;
+  absenceKind?: DivergenceKind;
+  failure?: ProofFailure;
+  usedProofIndexes: number[];
+}
+
+interface ProofNodeEntry {
+  rlp: Uint8Array;
+  index: number;
+}
+
+function siblingRefs(node: TrieNode, takenIndex: number): NodeRef[] {
+  if (node.type !== 'branch') {
+    return [];
+  }
+  return node.children.filter((child, index) => index !== takenIndex && child.length === 32);
+}
+
+export function verifyProof(
+  rootHash: Uint8Array,
+  key: number[],
+  proof: Uint8Array[],
+  trace?: (event: TraceEvent) => void,
+): ProofVerification {
+  const usedProofIndexes: number[] = [];
+  const nodesByHash = new Map<string, ProofNodeEntry>();
+  proof.forEach((rlp, index) => {
+    const hashHex = bytesToHex(keccak(rlp));
+    if (!nodesByHash.has(hashHex)) {
+      nodesByHash.set(hashHex, { rlp, index });
+    }
+  });
+
+  let ref: NodeRef = rootHash;
+  let remainder = key;
+  let consumed = 0;
+  let parent: TrieNode | undefined;
+  let takenIndex = -1;
+
+  const report = (event: Omit<TraceEvent, 'consumed' | 'keyRemainder'>): void => {
+    trace?.({ ...event, consumed, keyRemainder: remainder });
+  };
+  const absent = (absenceReason: string, absenceKind: DivergenceKind, activeNodeId?: string): ProofVerification => {
+    report({ kind: 'result', message: `Valid exclusion proof: ${absenceReason}`, activeNodeId });
+    return { status: 'absent', absenceReason, absenceKind, usedProofIndexes };
+  };
+  const found = (value: Uint8Array, activeNodeId: string): ProofVerification => {
+    report({ kind: 'result', message: 'Proof verified: value found', activeNodeId });
+    return { status: 'found', value, usedProofIndexes };
+  };
+  const invalid = (failure: ProofFailure): ProofVerification => {
+    report({ kind: 'result', message: `Proof rejected (${failure.kind}): ${failure.message}`, dbKeyHex: failure.expectedHex });
+    return { status: 'invalid', failure, usedProofIndexes };
+  };
+
+  if (equalBytes(rootHash, EMPTY_TRIE_ROOT)) {
+    return absent('Empty trie', 'missing-child');
+  }
+
+  while (true) {
+    if (ref.length === 0) {
+      return absent('Missing child reference', 'missing-child');
+    }
+
+    let rlp: Uint8Array;
+    if (ref.length === 32) {
+      const expectedHex = bytesToHex(ref);
+      const entry = nodesByHash.get(expectedHex);
+      if (!entry) {
+        const proofIndex = usedProofIndexes.length;
+        if (parent && siblingRefs(parent, takenIndex).some((sibling) => nodesByHash.has(bytesToHex(sibling)))) {
+          return invalid({
+            kind: 'path-divergence',
+            message: `Proof follows a different branch than key nibble ${takenIndex.toString(16)}`,
+            consumed,
+            expectedHex,
+          });
+        }
+        if (proofIndex < proof.length) {
+          return invalid({
+            kind: 'hash-mismatch',
+            message: `Proof node #${proofIndex} does not hash to the referenced ${expectedHex}`,
+            consumed,
+            proofIndex,
+            expectedHex,
+            actualHex: bytesToHex(keccak(proof[proofIndex])),
+          });
+        }
+        return invalid({
+          kind: 'missing-node',
+          message: `Proof has no node for hash ${expectedHex}`,
+          consumed,
+          expectedHex,
+        });
+      }
+      usedProofIndexes.push(entry.index);
+      rlp = entry.rlp;
+      report({
+        kind: 'decision',
+        message: `keccak(proof node #${entry.index}) = ${expectedHex} matches ${parent ? 'parent reference' : 'trusted root commitment'}`,
+        activeNodeId: expectedHex,
+        dbKeyHex: expectedHex,
+      });
+    } else {
+      rlp = ref;
+    }
+
+    let node: TrieNode;
+    try {
+      node = decodeTrieNode(rlp);
+    } catch (error) {
+      return invalid({
+        kind: 'invalid-node',
+        message: `Proof node does not decode: ${(error as Error).message}`,
+        consumed,
+        expectedHex: ref.length === 32 ? bytesToHex(ref) : undefined,
+      });
+    }
+
+    const nodeId = nodeIdFromRef(ref);
+    report({
+      kind: 'visit',
+      message: ref.length === 32 ? `Decode ${node.type} node from proof` : `Decode embedded ${node.type} node inside parent`,
+      activeNodeId: nodeId,
+      activeNode: inspectNode(node, rlp, ref),
+    });
+
+    if (node.type === 'leaf') {
+      if (equalBytes(new Uint8Array(node.path), new Uint8Array(remainder))) {
+        return found(node.value, nodeId);
+      }
+      return absent(leafMismatchReason(node.path, remainder), 'leaf-mismatch', nodeId);
+    }
+
+    if (node.type === 'extension') {
+      if (node.path.length > remainder.length || node.path.some((nibble, index) => remainder[index] !== nibble)) {
+        return absent(extensionMismatchReason(node.path), 'extension-mismatch', nodeId);
+      }
+      consumed += node.path.length;
+      remainder = remainder.slice(node.path.length);
+      report({ kind: 'decision', message: `Extension path matched ${nibblesToString(node.path)}`, activeNodeId: nodeId });
+      parent = node;
+      takenIndex = -1;
+      ref = node.child;
+      continue;
+    }
+
+    if (remainder.length === 0) {
+      if (node.value.length === 0) {
+        return absent('Branch value slot empty', 'branch-value-empty', nodeId);
+      }
+      return found(node.value, nodeId);
+    }
+    takenIndex = remainder[0];
+    consumed += 1;
+    remainder = remainder.slice(1);
+    report({ kind: 'decision', message: `Traverse branch index ${takenIndex.toString(16)}`, activeNodeId: nodeId });
+    parent = node;
+    ref = node.children[takenIndex];
+  }
+}
@@ -0,0 +1,67 @@
+import { accountEntry, generateAccounts } from './account';
+import { hexToBytes } from './bytes';
+import { decodeTrieNode, nodeReferences } from './nodeCodec';
+import { markLiveNodes, pruneMarkSweep, pruneRefCount } from './prune';
+import { simulateBuild, simulateStorageWrite, simulateUpdate } from './simulator';
+import { readStorageSlot } from './storage';
+import { lookupKey } from './trie';
+
+function buildHistory() {
+  const accounts = generateAccounts(21, 16);
+  const built = simulateBuild(accounts.map(accountEntry));
+  const first = simulateUpdate(built.rootRef, built.db, accounts[3], 11n, false);
+  const second = simulateUpdate(first.rootRef, first.db, accounts[9], 22n, false);
+  return { accounts, roots: [built.rootRef, first.rootRef, second.rootRef], db: second.db };
+}
+
+describe('DB pruning', () => {
+  it('mark-and-sweep and refcounting delete the same unreachable rows', () => {
+    const { accounts, roots, db } = buildHistory();
+    const latest = roots[roots.length - 1];
+    const live = markLiveNodes([latest], db);
+    expect(live.size).toBeLessThan(db.entries().length);
+
+    const swept = db.clone();
+    const markSweep = pruneMarkSweep([latest], swept);
+    const counted = db.clone();
+    const refCount = pruneRefCount([latest], counted);
+
+    expect(new Set(markSweep.deleted.map((entry) => entry.keyHex))).toEqual(new Set(refCount.deleted.map((entry) => entry.keyHex)));
+    expect(new Set(swept.entries().map((entry) => entry.keyHex))).toEqual(live);
+    expect(new Set(counted.entries().map((entry) => entry.keyHex))).toEqual(live);
+    for (const account of accounts) {
+      expect(lookupKey(latest, account.keyNibbles, { db: counted }).found).toBe(true);
+    }
+  });
+
+  it('keeps every retained root readable and keeps refcounts equal to parent counts', () => {
+    const { accounts, roots, db } = buildHistory();
+    const retained = roots.slice(-2);
+    pruneRefCount(retained, db);
+    for (const root of retained) {
+      for (const account of accounts) {
+        expect(lookupKey(root, account.keyNibbles, { db }).found).toBe(true);
+      }
+    }
+    expect(() => accounts.forEach((account) => lookupKey(roots[0], account.keyNibbles, { db }))).toThrow(/Missing node/);
+
+    const parents = new Map<string, number>();
+    for (const entry of db.entries()) {
+      for (const child of nodeReferences(decodeTrieNode(hexToBytes(entry.valueHex)))) {
+        parents.set(child, (parents.get(child) ?? 0) + 1);
+      }
+    }
+    for (const entry of db.entries()) {
+      expect(entry.refCount).toBe(parents.get(entry.keyHex) ?? 0);
+    }
+  });
+
+  it('follows account storage roots when marking live nodes', () => {
+    const accounts = generateAccounts(5, 6);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const written = simulateStorageWrite(built.rootRef, built.db, accounts[1], 7n, 99n, false);
+    const { deleted } = pruneMarkSweep([written.rootRef], written.db);
+    expect(deleted.length).toBeGreaterThan(0);
+    expect(readStorageSlot(written.updatedAccount.storageRoot, 7n, { db: written.db })).toBe(99n);
+  });
+});
@@ -0,0 +1,140 @@
+import { hexToBytes, shortHex } from './bytes';
+import { collectRefs, decodeTrieNode, nodeReferences } from './nodeCodec';
+import type { NodeRef, TraceEvent } from './types';
+import { InMemoryKvStore, type DbEntry } from '../store/kv';
+
+export type PruneStrategy = 'mark-sweep' | 'refcount';
+export type NodeLiveness = 'live' | 'stale' | 'deleted';
+
+export interface PruneOutcome {
+  deleted: DbEntry[];
+  deletedBytes: number;
+  liveCount: number;
+}
+
+function emit(trace: ((event: TraceEvent) => void) | undefined, event: TraceEvent): void {
+  trace?.(event);
+}
+
+export function retainedRootKeys(roots: NodeRef[]): string[] {
+  const out: string[] = [];
+  roots.forEach((root) => collectRefs(root, out));
+  return out;
+}
+
+function entryReferences(db: InMemoryKvStore, keyHex: string): string[] {
+  const valueHex = db.get(keyHex);
+  if (!valueHex) {
+    return [];
+  }
+  try {
+    return nodeReferences(decodeTrieNode(hexToBytes(valueHex)));
+  } catch {
+    return [];
+  }
+}
+
+export function markLiveNodes(roots: NodeRef[], db: InMemoryKvStore, trace?: (event: TraceEvent) => void): Set<string> {
+  const live = new Set<string>();
+  const pending = retainedRootKeys(roots);
+  while (pending.length > 0) {
+    const keyHex = pending.pop()!;
+    if (live.has(keyHex) || !db.get(keyHex)) {
+      continue;
+    }
+    live.add(keyHex);
+    emit(trace, {
+      kind: 'visit',
+      message: `Mark live node ${shortHex(keyHex, 10)}`,
+      consumed: 0,
+      keyRemainder: [],
+      activeNodeId: keyHex,
+      dbKeyHex: keyHex,
+    });
+    pending.push(...entryReferences(db, keyHex));
+  }
+  return live;
+}
+
+interface DeletedEntry {
+  removed: DbEntry;
+  released: { keyHex: string; refCount: number }[];
+}
+
+function deleteEntry(db: InMemoryKvStore, keyHex: string, reason: string, trace?: (event: TraceEvent) => void): DeletedEntry | undefined {
+  const children = entryReferences(db, keyHex);
+  const removed = db.entry(keyHex);
+  if (!removed || !db.delete(keyHex)) {
+    return undefined;
+  }
+  emit(trace, {
+    kind: 'db-delete',
+    message: `DB DELETE ${keyHex} (${reason})`,
+    consumed: 0,
+    keyRemainder: [],
+    dbKeyHex: keyHex,
+    dbAction: 'DELETE',
+  });
+  const released: DeletedEntry['released'] = [];
+  for (const child of children) {
+    const refCount = db.addReference(child, -1);
+    if (refCount !== undefined) {
+      released.push({ keyHex: child, refCount });
+    }
+  }
+  return { removed, released };
+}
+
+function summarize(deleted: DbEntry[], db: InMemoryKvStore): PruneOutcome {
+  return {
+    deleted,
+    deletedBytes: deleted.reduce((sum, entry) => sum + entry.valueSize, 0),
+    liveCount: db.entries().length,
+  };
+}
+
+export function pruneMarkSweep(roots: NodeRef[], db: InMemoryKvStore, trace?: (event: TraceEvent) => void): PruneOutcome {
+  const live = markLiveNodes(roots, db, trace);
+  const deleted: DbEntry[] = [];
+  for (const entry of db.entries()) {
+    if (live.has(entry.keyHex)) {
+      continue;
+    }
+    const outcome = deleteEntry(db, entry.keyHex, 'not reachable from a retained root', trace);
+    if (outcome) {
+      deleted.push(outcome.removed);
+    }
+  }
+  return summarize(deleted, db);
+}
+
+export function pruneRefCount(roots: NodeRef[], db: InMemoryKvStore, trace?: (event: TraceEvent) => void): PruneOutcome {
+  const retained = new Set(retainedRootKeys(roots));
+  const pending = db
+    .entries()
+    .filter((entry) => entry.refCount === 0 && !retained.has(entry.keyHex))
+    .map((entry) => entry.keyHex)
+    .reverse();
+  const deleted: DbEntry[] = [];
+  while (pending.length > 0) {
+    const outcome = deleteEntry(db, pending.pop()!, 'refcount 0', trace);
+    if (!outcome) {
+      continue;
+    }
+    deleted.push(outcome.removed);
+    for (const { keyHex, refCount } of outcome.released) {
+      emit(trace, {
+        kind: 'decision',
+        message: `Dereference child ${shortHex(keyHex, 10)}: refcount now ${refCount}`,
+        consumed: 0,
+        keyRemainder: [],
+        activeNodeId: keyHex,
+        dbKeyHex: keyHex,
+      });
+      if (refCount === 0 && !retained.has(keyHex)) {
+        pending.push(keyHex);
+      }
+    }
+  }
+  return summarize(deleted, db);
+}
@@ -0,0 +1,104 @@
+import { generateAccounts } from './account';
+import { hexToBytes } from './bytes';
+import { getRangeProof, verifyRangeProof } from './rangeProof';
+import { describeRoot, insertKeyValue } from './trie';
+import { InMemoryKvStore } from '../store/kv';
+
+function buildTrie(keys: number[][], valueFor: (key: number[]) => Uint8Array) {
+  const store = new InMemoryKvStore();
+  let rootRef: Uint8Array = new Uint8Array();
+  for (const key of keys) {
+    rootRef = insertKeyValue(rootRef, key, valueFor(key), { db: store }).rootRef;
+  }
+  return { store, rootRef, rootHash: hexToBytes(describeRoot(rootRef).commitmentHex) };
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+describe('range proofs', () => {
+  const accounts = generateAccounts(5, 32);
+  const sortedKeys = accounts.map((account) => account.keyNibbles).sort(compareKeys);
+  const { store, rootRef, rootHash } = buildTrie(
+    accounts.map((account) => account.keyNibbles),
+    (key) => accounts.find((account) => account.keyNibbles === key)!.accountRlp,
+  );
+
+  it.each([
+    { startIndex: 0, limit: 32 },
+    { startIndex: 0, limit: 5 },
+    { startIndex: 7, limit: 10 },
+    { startIndex: 25, limit: 10 },
+  ])('returns consecutive leaves from index $startIndex (limit $limit) that verify', ({ startIndex, limit }) => {
+    const range = getRangeProof(rootRef, sortedKeys[startIndex], limit, store);
+    const expected = sortedKeys.slice(startIndex, startIndex + limit);
+    expect(range.keys).toEqual(expected);
+
+    const verified = verifyRangeProof(rootHash, range.startKey, range.keys, range.values, range.proof);
+    expect(verified.valid).toBe(true);
+    expect(verified.hasMore).toBe(startIndex + limit < sortedKeys.length);
+  });
+
+  it('starts at the first key after an absent start key', () => {
+    const start = [...sortedKeys[3]];
+    start[63] = (start[63] + 1) % 16;
+    const range = getRangeProof(rootRef, start, 4, store);
+    expect(range.keys[0]).toEqual(sortedKeys.find((key) => compareKeys(key, start) >= 0));
+
+    expect(verifyRangeProof(rootHash, range.startKey, range.keys, range.values, range.proof).valid).toBe(true);
+  });
+
+  it('proves an empty tail range', () => {
+    const start = Array.from({ length: 64 }, () => 0xf);
+    const range = getRangeProof(rootRef, start, 4, store);
+    expect(range.keys).toHaveLength(0);
+
+    const verified = verifyRangeProof(rootHash, range.startKey, range.keys, range.values, range.proof);
+    expect(verified.valid).toBe(true);
+    expect(verified.hasMore).toBe(false);
+  });
+
+  it('rejects ranges with an omitted, extra, or altered leaf', () => {
+    const range = getRangeProof(rootRef, sortedKeys[4], 8, store);
+
+    const omitted = verifyRangeProof(
+      rootHash,
+      range.startKey,
+      range.keys.filter((_, index) => index !== 3),
+      range.values.filter((_, index) => index !== 3),
+      range.proof,
+    );
+    expect(omitted.valid).toBe(false);
+
+    const firstOmitted = verifyRangeProof(rootHash, range.startKey, range.keys.slice(1), range.values.slice(1), range.proof);
+    expect(firstOmitted.valid).toBe(false);
+
+    const altered = range.values.map((value, index) => (index === 2 ? new Uint8Array([...value, 0x01]) : value));
+    expect(verifyRangeProof(rootHash, range.startKey, range.keys, altered, range.proof).valid).toBe(false);
+
+    const extraKey = [...range.keys[1]];
+    extraKey[63] = (extraKey[63] + 1) % 16;
+    const keys = [range.keys[0], range.keys[1], extraKey, ...range.keys.slice(2)];
+    const values = [range.values[0], range.values[1], new Uint8Array([0x01]), ...range.values.slice(2)];
+    expect(verifyRangeProof(rootHash, range.startKey, keys, values, range.proof).valid).toBe(false);
+  });
+
+  it('handles branch values and embedded nodes in short-key tries', () => {
+    const keys = [[1], [1, 2], [1, 2, 3], [1, 3], [2, 0, 1], [2, 0, 2], [4]];
+    const small = buildTrie(keys, (key) => new Uint8Array([0x20 + key.length, ...key]));
+
+    for (let start = 0; start < keys.length; start += 1) {
+      const range = getRangeProof(small.rootRef, keys[start], 3, small.store);
+      expect(range.keys).toEqual(keys.slice(start, start + 3));
+      const verified = verifyRangeProof(small.rootHash, range.startKey, range.keys, range.values, range.proof);
+      expect(verified.valid).toBe(true);
+      expect(verified.hasMore).toBe(start + 3 < keys.length);
+    }
+  });
+});
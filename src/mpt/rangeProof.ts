@@ -0,0 +1,186 @@
+import { bytesToHex, compareNibbles, equalBytes, hexToBytes, isNibblePrefix, nibblesToString } from './bytes';
+import { EMPTY_TRIE_ROOT, keccak } from './crypto';
+import { decodeTrieNode, encodeTrieNode } from './nodeCodec';
+import { describeRoot, getProof, insertKeyValue, seekLeaves } from './trie';
+import type { NodeRef, TrieNode } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+export interface RangeProof {
+  startKey: number[];
+  keys: number[][];
+  values: Uint8Array[];
+  proof: Uint8Array[];
+}
+
+export interface RangeVerification {
+  valid: boolean;
+  hasMore: boolean;
+  reason?: string;
+  rebuiltRootHex?: string;
+}
+
+type SubtreeRelation = 'before' | 'inside' | 'after' | 'straddle';
+
+function inRange(key: number[], start: number[], end?: number[]): boolean {
+  return compareNibbles(key, start) >= 0 && (!end || compareNibbles(key, end) <= 0);
+}
+
+function subtreeRelation(prefix: number[], start: number[], end?: number[]): SubtreeRelation {
+  if (!isNibblePrefix(prefix, start) && compareNibbles(prefix, start) < 0) {
+    return 'before';
+  }
+  if (end && !isNibblePrefix(prefix, end) && compareNibbles(prefix, end) > 0) {
+    return 'after';
+  }
+  if (compareNibbles(prefix, start) >= 0 && (!end || (!isNibblePrefix(prefix, end) && compareNibbles(prefix, end) < 0))) {
+    return 'inside';
+  }
+  return 'straddle';
+}
+
+function readNode(ref: NodeRef, db: InMemoryKvStore): TrieNode {
+  if (ref.length < 32) {
+    return decodeTrieNode(ref);
+  }
+  const rlpHex = db.get(bytesToHex(ref));
+  if (!rlpHex) {
+    throw new Error(`Missing node in DB for hash ${bytesToHex(ref)}`);
+  }
+  return decodeTrieNode(hexToBytes(rlpHex));
+}
+
+function storeNode(node: TrieNode, db: InMemoryKvStore): NodeRef {
+  const rlp = encodeTrieNode(node);
+  if (rlp.length < 32) {
+    return rlp;
+  }
+  const hash = keccak(rlp);
+  db.put(bytesToHex(hash), bytesToHex(rlp), node.type);
+  return hash;
+}
+
+export function getRangeProof(rootRef: NodeRef, startKey: number[], limit: number, db: InMemoryKvStore): RangeProof {
+  const collected = { keys: [] as number[][], values: [] as Uint8Array[] };
+  if (limit > 0) {
+    for (const leaf of seekLeaves(rootRef, startKey, { db })) {
+      collected.keys.push(leaf.key);
+      collected.values.push(leaf.value);
+      if (collected.keys.length >= limit) {
+        break;
+      }
+    }
+  }
+
+  const proof: Uint8Array[] = [];
+  const seen = new Set<string>();
+  const edges = [startKey];
+  if (collected.keys.length > 0) {
+    edges.push(collected.keys[collected.keys.length - 1]);
+  }
+  for (const edge of edges) {
+    for (const rlp of getProof(rootRef, edge, db).proof) {
+      const hashHex = bytesToHex(keccak(rlp));
+      if (!seen.has(hashHex)) {
+        seen.add(hashHex);
+        proof.push(rlp);
+      }
+    }
+  }
+
+  return { startKey, keys: collected.keys, values: collected.values, proof };
+}
+
+export function verifyRangeProof(
+  rootHash: Uint8Array,
+  startKey: number[],
+  keys: number[][],
+  values: Uint8Array[],
+  proof: Uint8Array[],
+): RangeVerification {
+  const rejected = (reason: string): RangeVerification => ({ valid: false, hasMore: false, reason });
+
+  if (keys.length !== values.length) {
+    return rejected(`Range has ${keys.length} keys but ${values.length} values`);
+  }
+  for (let i = 0; i < keys.length; i += 1) {
+    const previous = i === 0 ? undefined : keys[i - 1];
+    if (previous ? compareNibbles(previous, keys[i]) >= 0 : compareNibbles(keys[i], startKey) < 0) {
+      return rejected(`Key ${nibblesToString(keys[i])} is out of order`);
+    }
+    if (values[i].length === 0) {
+      return rejected(`Key ${nibblesToString(keys[i])} has an empty value`);
+    }
+  }
+
+  const db = new InMemoryKvStore();
+  let rootRef: NodeRef = new Uint8Array();
+  for (const rlp of proof) {
+    const hash = keccak(rlp);
+    db.put(bytesToHex(hash), bytesToHex(rlp));
+    if (equalBytes(hash, rootHash)) {
+      rootRef = rlp.length < 32 ? rlp : hash;
+    }
+  }
+  if (rootRef.length === 0 && !equalBytes(rootHash, EMPTY_TRIE_ROOT)) {
+    return rejected(`Proof has no node for root ${bytesToHex(rootHash)}`);
+  }
+
+  const endKey = keys.length > 0 ? keys[keys.length - 1] : undefined;
+  let hasMore = false;
+
+  const pruneRange = (ref: NodeRef, prefix: number[]): NodeRef => {
+    if (ref.length === 0) {
+      return ref;
+    }
+    const relation = subtreeRelation(prefix, startKey, endKey);
+    if (relation === 'inside') {
+      return new Uint8Array();
+    }
+    if (relation !== 'straddle') {
+      hasMore ||= relation === 'after';
+      return ref;
+    }
+
+    const node = readNode(ref, db);
+    if (node.type === 'leaf') {
+      const key = [...prefix, ...node.path];
+      if (inRange(key, startKey, endKey)) {
+        return new Uint8Array();
+      }
+      hasMore ||= !!endKey && compareNibbles(key, endKey) > 0;
+      return ref;
+    }
+    if (node.type === 'extension') {
+      const child = pruneRange(node.child, [...prefix, ...node.path]);
+      return child.length === 0 ? child : storeNode({ ...node, child }, db);
+    }
+
+    const children = node.children.map((child, index) => pruneRange(child, [...prefix, index]));
+    let value = node.value;
+    if (value.length > 0 && inRange(prefix, startKey, endKey)) {
+      value = new Uint8Array();
+    } else if (value.length > 0 && endKey && compareNibbles(prefix, endKey) > 0) {
+      hasMore = true;
+    }
+    if (value.length === 0 && children.every((child) => child.length === 0)) {
+      return new Uint8Array();
+    }
+    return storeNode({ type: 'branch', children, value }, db);
+  };
+
+  let rebuilt: NodeRef;
+  try {
+    rebuilt = pruneRange(rootRef, []);
+    for (let i = 0; i < keys.length; i += 1) {
+      rebuilt = insertKeyValue(rebuilt, keys[i], values[i], { db }).rootRef;
+    }
+  } catch (error) {
+    return rejected(`Edge proof incomplete: ${(error as Error).message}`);
+  }
+
+  const rebuiltRootHex = describeRoot(rebuilt).commitmentHex;
+  if (rebuiltRootHex !== bytesToHex(rootHash)) {
+    return { valid: false, hasMore, reason: 'Rebuilt partial trie does not match the root', rebuiltRootHex };
+  }
+  return { valid: true, hasMore, rebuiltRootHex };
+}
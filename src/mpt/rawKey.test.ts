@@ -0,0 +1,54 @@
+import { bytesToHex } from './bytes';
+import { createRawEntry, encodeRawInput, formatRawBytes } from './rawKey';
+import { describeRoot, insertKeyValue, lookupKey } from './trie';
+import { InMemoryKvStore } from '../store/kv';
+
+function buildRaw(pairs: [string, string][]) {
+  const db = new InMemoryKvStore();
+  let rootRef: Uint8Array = new Uint8Array();
+  for (const [key, value] of pairs) {
+    const entry = createRawEntry(key, value, 'utf8');
+    rootRef = insertKeyValue(rootRef, entry.keyNibbles, entry.value, { db }).rootRef;
+  }
+  return { db, rootRef };
+}
+
+describe('raw-key trie mode', () => {
+  const pairs: [string, string][] = [
+    ['do', 'verb'],
+    ['dog', 'puppy'],
+    ['doge', 'coin'],
+    ['horse', 'stallion'],
+  ];
+
+  it('matches the reference root for keys that prefix each other', () => {
+    const { rootRef } = buildRaw(pairs);
+    expect(describeRoot(rootRef).commitmentHex).toEqual(
+      '0x5991bb8c6514148a29db676a14ac506cd2cd5775ace63c30a4fe457715e9ac84',
+    );
+  });
+
+  it('reads values from branch value slots and reports empty ones', () => {
+    const { db, rootRef } = buildRaw(pairs);
+    const doKey = createRawEntry('do', 'x', 'utf8').keyNibbles;
+    expect(bytesToHex(lookupKey(rootRef, doKey, { db }).value ?? new Uint8Array())).toEqual(
+      bytesToHex(encodeRawInput('verb', 'utf8')),
+    );
+
+    const { db: sparseDb, rootRef: sparseRoot } = buildRaw([
+      ['dog', 'puppy'],
+      ['dot', 'period'],
+    ]);
+    const missing = lookupKey(sparseRoot, doKey, { db: sparseDb });
+    expect(missing.found).toBe(false);
+    expect(missing.divergence).toBe('branch-value-empty');
+  });
+
+  it('parses hex and UTF-8 input and formats values', () => {
+    expect(bytesToHex(encodeRawInput('0x646F67', 'hex'))).toEqual('0x646f67');
+    expect(() => encodeRawInput('0x6', 'hex')).toThrow('Invalid hex bytes');
+    expect(() => createRawEntry('dog', '', 'utf8')).toThrow('Value must not be empty');
+    expect(formatRawBytes(encodeRawInput('dog', 'utf8'))).toEqual('"dog"');
+    expect(formatRawBytes(new Uint8Array([0xff, 0x00]))).toEqual('0xff00');
+  });
+});
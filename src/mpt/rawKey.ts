@@ -0,0 +1,57 @@
+import { decodeAccountValue } from './account';
+import { bytesToHex, hexToBytes, toNibbles } from './bytes';
+import { describeListItem } from './listTrie';
+import type { KeyMode, KeyValueEntry } from './types';
+
+export type RawEncoding = 'hex' | 'utf8';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+export function encodeRawInput(text: string, encoding: RawEncoding): Uint8Array {
+  if (encoding === 'utf8') {
+    return Uint8Array.from(textEncoder.encode(text));
+  }
+  const raw = text.trim().toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]*$/.test(raw) || raw.length % 2 !== 0) {
+    throw new Error(`Invalid hex bytes ${text}`);
+  }
+  return hexToBytes(raw);
+}
+
+export function formatRawBytes(bytes: Uint8Array): string {
+  let text: string;
+  try {
+    text = textDecoder.decode(bytes);
+  } catch {
+    return bytesToHex(bytes);
+  }
+  return /^[^\p{C}]+$/u.test(text) ? `"${text}"` : bytesToHex(bytes);
+}
+
+export function rawEntry(key: Uint8Array, value: Uint8Array): KeyValueEntry {
+  if (value.length === 0) {
+    throw new Error('Value must not be empty: an empty value means delete');
+  }
+  return {
+    id: bytesToHex(key),
+    keyLabel: formatRawBytes(key),
+    keyNibbles: toNibbles(key),
+    value,
+    valueLabel: formatRawBytes(value),
+  };
+}
+
+export function createRawEntry(keyText: string, valueText: string, encoding: RawEncoding): KeyValueEntry {
+  return rawEntry(encodeRawInput(keyText, encoding), encodeRawInput(valueText, encoding));
+}
+
+export function describeLeafValue(value: Uint8Array, keyMode: KeyMode): string {
+  if (keyMode === 'raw') {
+    return `value ${formatRawBytes(value)}`;
+  }
+  if (keyMode === 'transactions' || keyMode === 'receipts') {
+    return describeListItem(keyMode, value);
+  }
+  return `balance ${decodeAccountValue(value).balance.toString()}`;
+}
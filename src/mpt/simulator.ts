@@ -1,10 +1,39 @@
-import { cloneBytes, nibblesToString, shortHex } from './bytes';
-import { decodeAccountValue, encodeAccountValue, type GeneratedAccount } from './account';
-import { describeRoot, insertKeyValue, lookupKey } from './trie';
-import type { NodeInspection, TraceEvent } from './types';
+import { bytesToHex, cloneBytes, compareNibbles, equalBytes, hexToBytes, nibblesToString, shortHex } from './bytes';
+import { accountEntry, encodeAccountValue, type GeneratedAccount } from './account';
+import { DeferredTrie } from './deferredTrie';
+import { verifyProof, type ProofVerification } from './proof';
+import { markLiveNodes, pruneMarkSweep, pruneRefCount, type PruneOutcome, type PruneStrategy } from './prune';
+import { describeLeafValue } from './rawKey';
+import { StackTrie } from './stackTrie';
+import { storageRootRef, storageSlotKey, writeStorageSlot } from './storage';
+import {
+  deleteKey,
+  describeRoot,
+  getProof,
+  insertKeyValue,
+  iterateLeaves,
+  lookupKey,
+  type LookupOutcome,
+  prefixLeaves,
+  seekLeaves,
+  type TrieLeafEntry,
+} from './trie';
+import { applyWitnessOp, collectWitness, witnessStore, type BlockWitness, type WitnessOp } from './witness';
+import type { DivergenceKind, KeyMode, KeyValueEntry, NodeInspection, TraceEvent } from './types';
 import { InMemoryKvStore, type DbEntry } from '../store/kv';
+import type { NodeCacheStore } from '../store/nodeCache';
+import { snapshotKeyHex, StateSnapshot } from '../store/snapshot';
+import { WriteBatch, type BatchSummary } from '../store/writeBatch';
 
-export type SimulationMode = 'insert' | 'lookup' | 'update';
+export type SimulationMode = 'insert' | 'lookup' | 'update' | 'delete' | 'prove' | 'iterate' | 'sstore' | 'prune' | 'witness';
+export type IterationKind = 'all' | 'seek' | 'prefix';
+export type CommitMode = 'immediate' | 'deferred';
+export type BuildMethod = 'insert' | 'stack';
+
+export interface StorageView {
+  address: string;
+  rootRef: Uint8Array;
+}
 
 export interface SimulationStep {
   id: number;
@@ -17,16 +46,45 @@ export interface SimulationStep {
   activeNodeId?: string;
   activeNode?: NodeInspection;
   highlightedDbKey?: string;
-  dbAction?: 'GET' | 'PUT';
+  dbAction?: 'GET' | 'PUT' | 'DELETE';
   cacheHit?: boolean;
   changedNodeIds: string[];
+  proofNodeIds?: string[];
+  storageView?: StorageView;
   dbEntries: DbEntry[];
 }
 
+export type LookupTarget = Pick<KeyValueEntry, 'keyLabel' | 'keyNibbles'>;
+
+export interface WriteStats {
+  puts: number;
+  bytesWritten: number;
+}
+
+export type WriteComparison = Record<CommitMode, WriteStats>;
+
+export interface BuildStats {
+  puts: number;
+  orphanedNodes: number;
+  peakNodes: number;
+}
+
+export type BuildComparison = Record<BuildMethod, BuildStats>;
+
 export interface BuildSimulationResult {
   steps: SimulationStep[];
   rootRef: Uint8Array;
   db: InMemoryKvStore;
+  writeComparison: WriteComparison;
+  buildComparison: BuildComparison;
+  snapshot: StateSnapshot;
+}
+
+export interface SnapshotRead {
+  steps: SimulationStep[];
+  found: boolean;
+  value?: Uint8Array;
+  gets: number;
 }
 
 export interface LookupSimulationResult {
@@ -34,21 +92,78 @@ export interface LookupSimulationResult {
   found: boolean;
   value?: Uint8Array;
   mismatchReason?: string;
+  divergence?: DivergenceKind;
+  trieGets: number;
+  snapshotRead?: SnapshotRead;
 }
 
-export interface UpdateSimulationResult {
+export interface PutSimulationResult {
   steps: SimulationStep[];
   rootRef: Uint8Array;
   db: InMemoryKvStore;
   changedNodeCount: number;
+  writeComparison: WriteComparison;
+}
+
+export interface UpdateSimulationResult extends PutSimulationResult {
   updatedAccount: GeneratedAccount;
 }
 
+export interface StorageSimulationResult {
+  steps: SimulationStep[];
+  rootRef: Uint8Array;
+  db: InMemoryKvStore;
+  changedNodeCount: number;
+  updatedAccount: GeneratedAccount;
+}
+
+export interface DeleteSimulationResult {
+  steps: SimulationStep[];
+  rootRef: Uint8Array;
+  db: InMemoryKvStore;
+  changedNodeCount: number;
+  deleted: boolean;
+}
+
+export interface ProofSimulationResult {
+  steps: SimulationStep[];
+  proof: Uint8Array[];
+  proofBytes: number;
+  verification: ProofVerification;
+}
+
+export interface IterationSimulationResult {
+  steps: SimulationStep[];
+  leaves: TrieLeafEntry[];
+}
+
+export interface PruneSimulationResult extends PruneOutcome {
+  steps: SimulationStep[];
+  db: InMemoryKvStore;
+}
+
+export interface WitnessSimulationResult {
+  steps: SimulationStep[];
+  witness: BlockWitness;
+  statelessRootRef: Uint8Array;
+  matches: boolean;
+}
+
+export class OperationRolledBack extends Error {
+  constructor(
+    message: string,
+    readonly steps: SimulationStep[],
+  ) {
+    super(message);
+  }
+}
+
 class StepCollector {
   private steps: SimulationStep[] = [];
   private mode: SimulationMode;
   private db: InMemoryKvStore;
   private rootRefGetter: () => Uint8Array;
+  storageView?: StorageView;
 
   constructor(mode: SimulationMode, db: InMemoryKvStore, rootRefGetter: () => Uint8Array) {
     this.mode = mode;
@@ -56,7 +171,9 @@ class StepCollector {
     this.rootRefGetter = rootRefGetter;
   }
 
-  record(partial: Omit<SimulationStep, 'id' | 'mode' | 'rootRef' | 'dbEntries'> & { rootRef?: Uint8Array }): void {
+  record(
+    partial: Omit<SimulationStep, 'id' | 'mode' | 'rootRef' | 'dbEntries' | 'storageView'> & { rootRef?: Uint8Array },
+  ): void {
     const snapshot: SimulationStep = {
       id: this.steps.length,
       mode: this.mode,
@@ -71,6 +188,8 @@ class StepCollector {
       dbAction: partial.dbAction,
       cacheHit: partial.cacheHit,
       changedNodeIds: partial.changedNodeIds,
+      proofNodeIds: partial.proofNodeIds,
+      storageView: this.storageView,
       dbEntries: this.db.entries(),
     };
     this.steps.push(snapshot);
@@ -97,92 +216,306 @@ class StepCollector {
   }
 }
 
-export function simulateBuild(accounts: GeneratedAccount[]): BuildSimulationResult {
-  const db = new InMemoryKvStore();
-  let rootRef: Uint8Array = new Uint8Array();
-  const collector = new StepCollector('insert', db, () => rootRef);
+function describeBatch(summary: BatchSummary): string {
+  return `${summary.newRows} new rows (${summary.bytes} bytes), ${summary.updatedRows} refcount updates, ${summary.deletedRows} deletes`;
+}
 
+function runInBatch<T>(collector: StepCollector, batch: WriteBatch, run: () => T, cache?: NodeCacheStore): T {
   collector.record({
-    title: 'BUILD START',
-    log: `Reset trie and DB. Accounts queued: ${accounts.length}`,
+    title: 'BATCH BEGIN',
+    log: 'Open a write batch: node PUTs and DELETEs are staged until the operation completes',
     keyNibbles: [],
     consumed: 0,
     changedNodeIds: [],
   });
-
-  for (const account of accounts) {
+  let result: T;
+  try {
+    result = run();
+  } catch (error) {
+    const added = batch.newKeys();
+    const dropped = batch.rollback();
+    added.forEach((keyHex) => cache?.delete(keyHex));
     collector.record({
-      title: 'INSERT ACCOUNT',
-      log: `Insert ${shortHex(account.address, 10)} with key ${nibblesToString(account.keyNibbles).slice(0, 16)}...`,
-      keyNibbles: account.keyNibbles,
+      title: 'BATCH ROLLBACK',
+      log: `Operation failed, discard ${describeBatch(dropped)}. The DB is unchanged: ${(error as Error).message}`,
+      keyNibbles: [],
       consumed: 0,
       changedNodeIds: [],
     });
+    throw new OperationRolledBack((error as Error).message, collector.all());
+  }
+  const flushed = batch.commit();
+  collector.record({
+    title: 'BATCH COMMIT',
+    log: `Flush ${describeBatch(flushed)} to the DB in one atomic write`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+  });
+  return result;
+}
 
-    const inserted = insertKeyValue(rootRef, account.keyNibbles, account.accountRlp, {
-      db,
-      trace: (event) => collector.fromTrace(event),
-      emitDbGetEvents: false,
-      cache: new Map(),
-      useCache: false,
-    });
-    rootRef = inserted.rootRef;
+function trackWrites(stats: WriteStats, trace?: (event: TraceEvent) => void): (event: TraceEvent) => void {
+  return (event) => {
+    if (event.kind === 'db-put') {
+      stats.puts += 1;
+      stats.bytesWritten += event.activeNode?.rlpSize ?? 0;
+    }
+    trace?.(event);
+  };
+}
 
-    const rootView = describeRoot(rootRef);
-    collector.record({
-      title: 'ROOT UPDATED',
-      log: rootView.isEmbedded
-        ? `Embedded root updated. Commitment keccak: ${rootView.commitmentHex}`
-        : `Root hash updated: ${rootView.commitmentHex}`,
-      keyNibbles: account.keyNibbles,
-      consumed: account.keyNibbles.length,
-      changedNodeIds: inserted.changedNodeIds,
-    });
+function measureWrites(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  entries: { keyNibbles: number[]; value: Uint8Array }[],
+  commitMode: CommitMode,
+): WriteStats {
+  const stats: WriteStats = { puts: 0, bytesWritten: 0 };
+  const options = { db, trace: trackWrites(stats) };
+  if (commitMode === 'deferred') {
+    const trie = new DeferredTrie(rootRef, options);
+    entries.forEach((entry) => trie.insert(entry.keyNibbles, entry.value));
+    trie.commit();
+    return stats;
+  }
+  let nextRootRef = rootRef;
+  for (const entry of entries) {
+    nextRootRef = insertKeyValue(nextRootRef, entry.keyNibbles, entry.value, options).rootRef;
   }
+  return stats;
+}
+
+function compareWrites(
+  commitMode: CommitMode,
+  measured: WriteStats,
+  measureOther: (other: CommitMode) => WriteStats,
+): WriteComparison {
+  const other: CommitMode = commitMode === 'immediate' ? 'deferred' : 'immediate';
+  return { [commitMode]: measured, [other]: measureOther(other) } as WriteComparison;
+}
+
+function sortedByKey(entries: KeyValueEntry[]): KeyValueEntry[] {
+  return [...entries].sort((a, b) => compareNibbles(a.keyNibbles, b.keyNibbles));
+}
+
+function measureBuild(entries: KeyValueEntry[], method: BuildMethod): BuildStats {
+  const db = new InMemoryKvStore();
+  let puts = 0;
+  let held = 0;
+  let peakNodes = 0;
+  const trace = (event: TraceEvent): void => {
+    if (event.kind === 'db-put') {
+      puts += 1;
+    }
+    if (event.kind === 'visit' || event.kind === 'finalize') {
+      held += 1;
+    }
+  };
+  let rootRef: Uint8Array = new Uint8Array();
+  if (method === 'stack') {
+    const trie = new StackTrie({ db, trace });
+    sortedByKey(entries).forEach((entry) => trie.insert(entry.keyNibbles, entry.value));
+    rootRef = trie.commit().rootRef;
+    peakNodes = trie.peakOpenNodes;
+  } else {
+    for (const entry of entries) {
+      held = 0;
+      rootRef = insertKeyValue(rootRef, entry.keyNibbles, entry.value, { db, trace }).rootRef;
+      peakNodes = Math.max(peakNodes, held);
+    }
+  }
+  const orphanedNodes = db.entries().length - markLiveNodes([rootRef], db).size;
+  return { puts, orphanedNodes, peakNodes };
+}
+
+function describeWrites(stats: WriteStats): string {
+  return `${stats.puts} DB PUTs, ${stats.bytesWritten} bytes written`;
+}
+
+function shortLabel(label: string): string {
+  return label.startsWith('0x') ? shortHex(label, 10) : label;
+}
+
+export function simulateBuild(
+  entries: KeyValueEntry[],
+  commitMode: CommitMode = 'immediate',
+  method: BuildMethod = 'insert',
+): BuildSimulationResult {
+  const db = new InMemoryKvStore();
+  const batch = new WriteBatch(db);
+  const snapshot = new StateSnapshot();
+  let rootRef: Uint8Array = new Uint8Array();
+  const collector = new StepCollector('insert', batch, () => rootRef);
+  const stats: WriteStats = { puts: 0, bytesWritten: 0 };
+  const options = {
+    db: batch,
+    trace: trackWrites(stats, (event) => collector.fromTrace(event)),
+    emitDbGetEvents: false,
+    cache: new Map<string, Uint8Array>(),
+    useCache: false,
+  };
+  const stack = method === 'stack' ? new StackTrie(options) : undefined;
+  const deferred = !stack && commitMode === 'deferred' ? new DeferredTrie(rootRef, options) : undefined;
+  const ordered = stack ? sortedByKey(entries) : entries;
+  const hashing = stack
+    ? 'stack trie over keys sorted by nibble path, hashing each subtree once no later key can reach it'
+    : commitMode === 'deferred'
+      ? 'deferred until commit'
+      : 'on every insert';
+
+  collector.record({
+    title: 'BUILD START',
+    log: `Reset trie and DB. Entries queued: ${entries.length}. Hashing: ${hashing}`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  runInBatch(collector, batch, () => {
+    for (const entry of ordered) {
+      collector.record({
+        title: 'INSERT KEY',
+        log: `Insert ${shortLabel(entry.keyLabel)} with key ${nibblesToString(entry.keyNibbles).slice(0, 16) || '(empty)'}...`,
+        keyNibbles: entry.keyNibbles,
+        consumed: 0,
+        changedNodeIds: [],
+      });
+      snapshot.put(entry.keyNibbles, entry.value);
+
+      if (stack) {
+        stack.insert(entry.keyNibbles, entry.value);
+        continue;
+      }
+      if (deferred) {
+        deferred.insert(entry.keyNibbles, entry.value);
+        continue;
+      }
+
+      const inserted = insertKeyValue(rootRef, entry.keyNibbles, entry.value, options);
+      rootRef = inserted.rootRef;
+
+      const rootView = describeRoot(rootRef);
+      collector.record({
+        title: 'ROOT UPDATED',
+        log: rootView.isEmbedded
+          ? `Embedded root updated. Commitment keccak: ${rootView.commitmentHex}`
+          : `Root hash updated: ${rootView.commitmentHex}`,
+        keyNibbles: entry.keyNibbles,
+        consumed: entry.keyNibbles.length,
+        changedNodeIds: inserted.changedNodeIds,
+      });
+    }
+
+    if (stack) {
+      collector.record({
+        title: 'SEAL RIGHT EDGE',
+        log: `Hash the ${stack.openNodeCount} nodes still open on the path of the last key (peak ${stack.peakOpenNodes} open nodes)`,
+        keyNibbles: [],
+        consumed: 0,
+        changedNodeIds: [],
+      });
+      const committed = stack.commit();
+      rootRef = committed.rootRef;
+      collector.record({
+        title: 'ROOT UPDATED',
+        log: `Root hash committed: ${describeRoot(rootRef).commitmentHex}`,
+        keyNibbles: [],
+        consumed: 0,
+        changedNodeIds: committed.changedNodeIds,
+      });
+    }
+
+    if (deferred) {
+      collector.record({
+        title: 'COMMIT DIRTY NODES',
+        log: `Hash and persist ${deferred.dirtyNodeCount} dirty in-memory nodes`,
+        keyNibbles: [],
+        consumed: 0,
+        changedNodeIds: [],
+      });
+      const committed = deferred.commit();
+      rootRef = committed.rootRef;
+      collector.record({
+        title: 'ROOT UPDATED',
+        log: `Root hash committed: ${describeRoot(rootRef).commitmentHex}`,
+        keyNibbles: [],
+        consumed: 0,
+        changedNodeIds: committed.changedNodeIds,
+      });
+    }
+  });
+
+  collector.record({
+    title: 'SNAPSHOT WRITE',
+    log: `Flat snapshot holds ${snapshot.size} rows key -> value next to the trie`,
+    keyNibbles: [],
+    consumed: 0,
+    dbAction: 'PUT',
+    changedNodeIds: [],
+  });
 
   collector.record({
     title: 'BUILD COMPLETE',
-    log: `Final commitment: ${describeRoot(rootRef).commitmentHex}`,
+    log: `Final commitment: ${describeRoot(rootRef).commitmentHex}. ${describeWrites(stats)}`,
     keyNibbles: [],
     consumed: 0,
     changedNodeIds: [],
   });
 
-  return { steps: collector.all(), rootRef, db };
+  const writeComparison = compareWrites(
+    commitMode,
+    stack ? measureWrites(new Uint8Array(), new InMemoryKvStore(), entries, commitMode) : stats,
+    (other) => measureWrites(new Uint8Array(), new InMemoryKvStore(), entries, other),
+  );
+  const buildComparison: BuildComparison = {
+    insert: measureBuild(entries, 'insert'),
+    stack: measureBuild(entries, 'stack'),
+  };
+  return { steps: collector.all(), rootRef, db, writeComparison, buildComparison, snapshot };
 }
 
 export function simulateLookup(
   rootRef: Uint8Array,
   db: InMemoryKvStore,
-  account: GeneratedAccount,
+  target: LookupTarget,
   useCache: boolean,
+  keyMode: KeyMode = 'secure',
+  snapshot?: StateSnapshot,
+  cache: NodeCacheStore = new Map<string, Uint8Array>(),
 ): LookupSimulationResult {
   const collector = new StepCollector('lookup', db, () => rootRef);
-  const cache = new Map<string, Uint8Array>();
 
   collector.record({
     title: 'LOOKUP START',
-    log: `Address ${shortHex(account.address, 10)} -> keccak key ${nibblesToString(account.keyNibbles).slice(0, 24)}...`,
-    keyNibbles: account.keyNibbles,
+    log:
+      keyMode !== 'secure'
+        ? `Key ${shortLabel(target.keyLabel)} -> raw path ${nibblesToString(target.keyNibbles).slice(0, 24) || '(empty)'}`
+        : `Address ${shortHex(target.keyLabel, 10)} -> keccak key ${nibblesToString(target.keyNibbles).slice(0, 24)}...`,
+    keyNibbles: target.keyNibbles,
     consumed: 0,
     changedNodeIds: [],
   });
 
-  const result = lookupKey(rootRef, account.keyNibbles, {
-    db,
-    trace: (event) => collector.fromTrace(event),
-    emitDbGetEvents: true,
-    cache,
-    useCache,
-  });
+  let result: LookupOutcome;
+  try {
+    result = lookupKey(rootRef, target.keyNibbles, {
+      db,
+      trace: (event) => collector.fromTrace(event),
+      emitDbGetEvents: true,
+      cache,
+      useCache,
+    });
+  } catch (error) {
+    result = { found: false, mismatchReason: (error as Error).message };
+  }
 
   if (result.found && result.value) {
-    const accountValue = decodeAccountValue(result.value);
     collector.record({
       title: 'LOOKUP RESULT',
-      log: `Found balance ${accountValue.balance.toString()}`,
+      log: `Found ${describeLeafValue(result.value, keyMode)}`,
       keyNibbles: [],
-      consumed: account.keyNibbles.length,
+      consumed: target.keyNibbles.length,
       changedNodeIds: [],
     });
   } else {
@@ -195,49 +528,117 @@ export function simulateLookup(
     });
   }
 
+  const steps = collector.all();
   return {
-    steps: collector.all(),
+    steps,
     found: result.found,
     value: result.value,
     mismatchReason: result.mismatchReason,
+    divergence: result.divergence,
+    trieGets: steps.filter((step) => step.dbAction === 'GET' && !step.cacheHit).length,
+    snapshotRead: snapshot ? readSnapshot(rootRef, db, snapshot, target, keyMode) : undefined,
   };
 }
 
-export function simulateUpdate(
+function readSnapshot(
   rootRef: Uint8Array,
   db: InMemoryKvStore,
-  account: GeneratedAccount,
-  newBalance: bigint,
+  snapshot: StateSnapshot,
+  target: LookupTarget,
+  keyMode: KeyMode,
+): SnapshotRead {
+  const collector = new StepCollector('lookup', db, () => rootRef);
+  const keyHex = snapshotKeyHex(target.keyNibbles);
+  collector.record({
+    title: 'SNAPSHOT START',
+    log: `Read ${shortLabel(target.keyLabel)} from the flat snapshot: no trie walk`,
+    keyNibbles: target.keyNibbles,
+    consumed: 0,
+    changedNodeIds: [],
+  });
+  const value = snapshot.get(target.keyNibbles);
+  collector.record({
+    title: 'DB-GET',
+    log: `Snapshot GET ${shortHex(keyHex, 12)}`,
+    keyNibbles: target.keyNibbles,
+    consumed: 0,
+    dbAction: 'GET',
+    changedNodeIds: [],
+  });
+  collector.record({
+    title: 'SNAPSHOT RESULT',
+    log: value ? `Found ${describeLeafValue(value, keyMode)}` : 'Not found: no snapshot row for this key',
+    keyNibbles: [],
+    consumed: value ? target.keyNibbles.length : 0,
+    changedNodeIds: [],
+  });
+  return { steps: collector.all(), found: value !== undefined, value, gets: 1 };
+}
+
+function simulateWrite(
+  mode: SimulationMode,
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  entry: KeyValueEntry,
+  startLog: string,
   useCache: boolean,
-): UpdateSimulationResult {
-  const collector = new StepCollector('update', db, () => rootRef);
-  const cache = new Map<string, Uint8Array>();
+  commitMode: CommitMode,
+  snapshot?: StateSnapshot,
+  cache: NodeCacheStore = new Map<string, Uint8Array>(),
+): PutSimulationResult {
+  const batch = new WriteBatch(db);
+  const collector = new StepCollector(mode, batch, () => rootRef);
   const beforeRoot = describeRoot(rootRef).commitmentHex;
-  const updatedValue = encodeAccountValue(account.nonce, newBalance);
+  const baseline = db.clone();
+  const stats: WriteStats = { puts: 0, bytesWritten: 0 };
 
   collector.record({
     title: 'UPDATE START',
-    log: `Update ${shortHex(account.address, 10)} balance ${account.balance.toString()} -> ${newBalance.toString()}`,
-    keyNibbles: account.keyNibbles,
+    log: startLog,
+    keyNibbles: entry.keyNibbles,
     consumed: 0,
     changedNodeIds: [],
   });
 
-  const inserted = insertKeyValue(rootRef, account.keyNibbles, updatedValue, {
-    db,
-    trace: (event) => collector.fromTrace(event),
+  const options = {
+    db: batch,
+    trace: trackWrites(stats, (event) => collector.fromTrace(event)),
     emitDbGetEvents: true,
     cache,
     useCache,
-  });
+  };
+  const inserted = runInBatch(
+    collector,
+    batch,
+    () => {
+      if (commitMode !== 'deferred') {
+        return insertKeyValue(rootRef, entry.keyNibbles, entry.value, options);
+      }
+      const trie = new DeferredTrie(rootRef, options);
+      trie.insert(entry.keyNibbles, entry.value);
+      return trie.commit();
+    },
+    cache,
+  );
   const nextRootRef = inserted.rootRef;
   const afterRoot = describeRoot(nextRootRef).commitmentHex;
+  if (snapshot) {
+    snapshot.put(entry.keyNibbles, entry.value);
+    collector.record({
+      title: 'SNAPSHOT WRITE',
+      log: `Overwrite snapshot row ${shortHex(snapshotKeyHex(entry.keyNibbles), 12)} with ${entry.value.length} bytes`,
+      keyNibbles: entry.keyNibbles,
+      consumed: entry.keyNibbles.length,
+      dbAction: 'PUT',
+      changedNodeIds: [],
+    });
+  }
 
   collector.record({
     title: 'UPDATE RESULT',
-    log: `Root changed ${beforeRoot} -> ${afterRoot}. Rewritten nodes: ${inserted.changedNodeIds.length}`,
-    keyNibbles: account.keyNibbles,
-    consumed: account.keyNibbles.length,
+    log: `Root changed ${beforeRoot} -> ${afterRoot}. Rewritten nodes: ${inserted.changedNodeIds.length}. ${describeWrites(stats)}`,
+    keyNibbles: entry.keyNibbles,
+    consumed: entry.keyNibbles.length,
     changedNodeIds: inserted.changedNodeIds,
     rootRef: nextRootRef,
   });
@@ -247,10 +648,410 @@ export function simulateUpdate(
     rootRef: nextRootRef,
     db,
     changedNodeCount: inserted.changedNodeIds.length,
-    updatedAccount: {
-      ...account,
-      balance: newBalance,
-      accountRlp: updatedValue,
+    writeComparison: compareWrites(commitMode, stats, (other) =>
+      measureWrites(rootRef, baseline, [{ keyNibbles: entry.keyNibbles, value: entry.value }], other),
+    ),
+  };
+}
+
+export function simulateUpdate(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  account: GeneratedAccount,
+  newBalance: bigint,
+  useCache: boolean,
+  commitMode: CommitMode = 'immediate',
+  snapshot?: StateSnapshot,
+  cache?: NodeCacheStore,
+): UpdateSimulationResult {
+  const updatedAccount: GeneratedAccount = {
+    ...account,
+    balance: newBalance,
+    accountRlp: encodeAccountValue(account.nonce, newBalance, account.storageRoot),
+  };
+  const result = simulateWrite(
+    'update',
+    rootRef,
+    db,
+    accountEntry(updatedAccount),
+    `Update ${shortHex(account.address, 10)} balance ${account.balance.toString()} -> ${newBalance.toString()}`,
+    useCache,
+    commitMode,
+    snapshot,
+    cache,
+  );
+  return { ...result, updatedAccount };
+}
+
+export function simulatePut(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  entry: KeyValueEntry,
+  useCache: boolean,
+  commitMode: CommitMode = 'immediate',
+  snapshot?: StateSnapshot,
+  cache?: NodeCacheStore,
+): PutSimulationResult {
+  return simulateWrite(
+    'update',
+    rootRef,
+    db,
+    entry,
+    `Put ${shortLabel(entry.keyLabel)} = ${entry.valueLabel}`,
+    useCache,
+    commitMode,
+    snapshot,
+    cache,
+  );
+}
+
+export function simulateStorageWrite(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  account: GeneratedAccount,
+  slot: bigint,
+  value: bigint,
+  useCache: boolean,
+  snapshot?: StateSnapshot,
+  cache: NodeCacheStore = new Map<string, Uint8Array>(),
+): StorageSimulationResult {
+  const batch = new WriteBatch(db);
+  const collector = new StepCollector('sstore', batch, () => rootRef);
+  const beforeRoot = describeRoot(rootRef).commitmentHex;
+  const options = {
+    db: batch,
+    trace: (event: TraceEvent) => collector.fromTrace(event),
+    emitDbGetEvents: true,
+    cache,
+    useCache,
+  };
+  const slotKey = storageSlotKey(slot);
+
+  collector.storageView = { address: account.address, rootRef: storageRootRef(account.storageRoot) };
+  collector.record({
+    title: 'SSTORE START',
+    log: `SSTORE slot ${slot.toString()} = ${value.toString()} on ${shortHex(account.address, 10)}: storage key keccak(slot) ${nibblesToString(slotKey).slice(0, 16)}...`,
+    keyNibbles: slotKey,
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  const { written, updatedAccount, inserted } = runInBatch(
+    collector,
+    batch,
+    () => {
+      const written = writeStorageSlot(account.storageRoot, slot, value, options);
+      collector.storageView = { address: account.address, rootRef: storageRootRef(written.storageRoot) };
+      collector.record({
+        title: 'STORAGE ROOT',
+        log: `Storage root ${shortHex(bytesToHex(account.storageRoot), 8)} -> ${shortHex(bytesToHex(written.storageRoot), 8)}. The account leaf must now commit to it`,
+        keyNibbles: [],
+        consumed: 0,
+        changedNodeIds: written.changedNodeIds,
+      });
+
+      collector.storageView = undefined;
+      const updatedAccount: GeneratedAccount = {
+        ...account,
+        storageRoot: written.storageRoot,
+        accountRlp: encodeAccountValue(account.nonce, account.balance, written.storageRoot),
+      };
+      collector.record({
+        title: 'ACCOUNT UPDATE',
+        log: `Rewrite account leaf of ${shortHex(account.address, 10)} with the new storage root`,
+        keyNibbles: account.keyNibbles,
+        consumed: 0,
+        changedNodeIds: [],
+      });
+      return { written, updatedAccount, inserted: insertKeyValue(rootRef, account.keyNibbles, updatedAccount.accountRlp, options) };
     },
+    cache,
+  );
+  const nextRootRef = inserted.rootRef;
+  if (snapshot) {
+    snapshot.put(account.keyNibbles, updatedAccount.accountRlp);
+    collector.record({
+      title: 'SNAPSHOT WRITE',
+      log: `Overwrite snapshot row ${shortHex(snapshotKeyHex(account.keyNibbles), 12)} with the new account RLP`,
+      keyNibbles: account.keyNibbles,
+      consumed: account.keyNibbles.length,
+      dbAction: 'PUT',
+      changedNodeIds: [],
+    });
+  }
+
+  collector.record({
+    title: 'SSTORE RESULT',
+    log: `State root changed ${beforeRoot} -> ${describeRoot(nextRootRef).commitmentHex}. Rewritten nodes: ${written.changedNodeIds.length} storage + ${inserted.changedNodeIds.length} state`,
+    keyNibbles: account.keyNibbles,
+    consumed: account.keyNibbles.length,
+    changedNodeIds: inserted.changedNodeIds,
+    rootRef: nextRootRef,
+  });
+
+  return {
+    steps: collector.all(),
+    rootRef: nextRootRef,
+    db,
+    changedNodeCount: written.changedNodeIds.length + inserted.changedNodeIds.length,
+    updatedAccount,
+  };
+}
+
+export function simulateDelete(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  target: LookupTarget,
+  useCache: boolean,
+  snapshot?: StateSnapshot,
+  cache: NodeCacheStore = new Map<string, Uint8Array>(),
+): DeleteSimulationResult {
+  const batch = new WriteBatch(db);
+  const collector = new StepCollector('delete', batch, () => rootRef);
+  const beforeRoot = describeRoot(rootRef).commitmentHex;
+
+  collector.record({
+    title: 'DELETE START',
+    log: `Delete ${shortLabel(target.keyLabel)} with key ${nibblesToString(target.keyNibbles).slice(0, 16) || '(empty)'}...`,
+    keyNibbles: target.keyNibbles,
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  const removed = runInBatch(
+    collector,
+    batch,
+    () =>
+      deleteKey(rootRef, target.keyNibbles, {
+        db: batch,
+        trace: (event) => collector.fromTrace(event),
+        emitDbGetEvents: true,
+        cache,
+        useCache,
+      }),
+    cache,
+  );
+  const nextRootRef = removed.rootRef;
+  const afterRoot = describeRoot(nextRootRef).commitmentHex;
+  if (snapshot?.delete(target.keyNibbles)) {
+    collector.record({
+      title: 'SNAPSHOT DELETE',
+      log: `Remove snapshot row ${shortHex(snapshotKeyHex(target.keyNibbles), 12)}`,
+      keyNibbles: target.keyNibbles,
+      consumed: target.keyNibbles.length,
+      dbAction: 'DELETE',
+      changedNodeIds: [],
+    });
+  }
+
+  collector.record({
+    title: 'DELETE RESULT',
+    log: removed.deleted
+      ? `Root changed ${beforeRoot} -> ${afterRoot}. Rewritten nodes: ${removed.changedNodeIds.length}`
+      : 'Key not present: root unchanged',
+    keyNibbles: target.keyNibbles,
+    consumed: target.keyNibbles.length,
+    changedNodeIds: removed.changedNodeIds,
+    rootRef: nextRootRef,
+  });
+
+  return {
+    steps: collector.all(),
+    rootRef: nextRootRef,
+    db,
+    changedNodeCount: removed.changedNodeIds.length,
+    deleted: removed.deleted,
+  };
+}
+
+export function simulateProof(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  target: LookupTarget,
+  keyMode: KeyMode = 'secure',
+): ProofSimulationResult {
+  const collector = new StepCollector('prove', db, () => rootRef);
+  const rootHex = describeRoot(rootRef).commitmentHex;
+
+  collector.record({
+    title: 'PROVE START',
+    log: `Prove ${shortLabel(target.keyLabel)} with key ${nibblesToString(target.keyNibbles).slice(0, 16) || '(empty)'}...`,
+    keyNibbles: target.keyNibbles,
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  const generated = getProof(rootRef, target.keyNibbles, db);
+  const proofBytes = generated.proof.reduce((sum, rlp) => sum + rlp.length, 0);
+  generated.proof.forEach((rlp, index) => {
+    const nodeId = generated.nodeIds[index];
+    collector.record({
+      title: 'PROOF NODE',
+      log: `Ship proof node #${index} ${nodeId.startsWith('0x') ? shortHex(nodeId, 8) : '(embedded root)'} (${rlp.length} bytes)`,
+      keyNibbles: target.keyNibbles,
+      consumed: 0,
+      activeNodeId: nodeId,
+      highlightedDbKey: nodeId.startsWith('0x') ? nodeId : undefined,
+      changedNodeIds: [],
+    });
+  });
+
+  collector.record({
+    title: 'VERIFY START',
+    log: `Verifier receives ${generated.proof.length} proof nodes (${proofBytes} bytes) and trusts only commitment ${rootHex}`,
+    keyNibbles: target.keyNibbles,
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  const verification = verifyProof(hexToBytes(rootHex), target.keyNibbles, generated.proof, (event) => collector.fromTrace(event));
+
+  let resultLog: string;
+  if (verification.status === 'found' && verification.value) {
+    resultLog = `Inclusion proven: ${describeLeafValue(verification.value, keyMode)}`;
+  } else if (verification.status === 'absent') {
+    resultLog = `Exclusion proven (${verification.absenceKind ?? 'unknown'}): ${verification.absenceReason ?? 'unknown divergence'}`;
+  } else {
+    resultLog = `Verification failed: ${verification.failure?.message ?? 'unknown failure'}`;
+  }
+  collector.record({
+    title: 'VERIFY RESULT',
+    log: resultLog,
+    keyNibbles: [],
+    consumed: target.keyNibbles.length,
+    changedNodeIds: [],
+  });
+
+  const steps = collector.all().map((step) => ({ ...step, proofNodeIds: generated.pathNodeIds }));
+  return { steps, proof: generated.proof, proofBytes, verification };
+}
+
+export function simulateIterate(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  kind: IterationKind,
+  nibbles: number[],
+  useCache: boolean,
+  cache: NodeCacheStore = new Map<string, Uint8Array>(),
+): IterationSimulationResult {
+  const collector = new StepCollector('iterate', db, () => rootRef);
+  const options = {
+    db,
+    trace: (event: TraceEvent) => collector.fromTrace(event),
+    emitDbGetEvents: true,
+    cache,
+    useCache,
   };
+  const bound = nibblesToString(nibbles) || '(empty)';
+
+  collector.record({
+    title: 'ITERATE START',
+    log: kind === 'all' ? 'Walk every leaf in key order' : kind === 'seek' ? `Seek to first key >= ${bound}` : `List keys under prefix ${bound}`,
+    keyNibbles: kind === 'all' ? [] : nibbles,
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  const iterator =
+    kind === 'all' ? iterateLeaves(rootRef, options) : kind === 'seek' ? seekLeaves(rootRef, nibbles, options) : prefixLeaves(rootRef, nibbles, options);
+  const leaves = Array.from(iterator);
+
+  collector.record({
+    title: 'ITERATE RESULT',
+    log: `Yielded ${leaves.length} keys in order`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  return { steps: collector.all(), leaves };
+}
+
+export function simulatePrune(
+  rootRef: Uint8Array,
+  db: InMemoryKvStore,
+  retainedRoots: Uint8Array[],
+  strategy: PruneStrategy,
+): PruneSimulationResult {
+  const batch = new WriteBatch(db);
+  const collector = new StepCollector('prune', batch, () => rootRef);
+  const trace = (event: TraceEvent) => collector.fromTrace(event);
+  const rowCount = db.entries().length;
+
+  collector.record({
+    title: 'PRUNE START',
+    log:
+      strategy === 'mark-sweep'
+        ? `Mark every node reachable from ${retainedRoots.length} retained commitment(s), then sweep the rest of the ${rowCount} DB rows`
+        : `Delete DB rows whose refcount is 0 and cascade to their children (${retainedRoots.length} retained commitment(s))`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  const outcome = runInBatch(collector, batch, () =>
+    strategy === 'mark-sweep' ? pruneMarkSweep(retainedRoots, batch, trace) : pruneRefCount(retainedRoots, batch, trace),
+  );
+
+  collector.record({
+    title: 'PRUNE RESULT',
+    log: `Deleted ${outcome.deleted.length} of ${rowCount} rows (${outcome.deletedBytes} bytes); ${outcome.liveCount} rows kept`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  return { ...outcome, steps: collector.all(), db };
+}
+
+export function simulateWitness(rootRef: Uint8Array, db: InMemoryKvStore, ops: WitnessOp[]): WitnessSimulationResult {
+  const witness = collectWitness(rootRef, db, ops);
+  const statelessDb = witnessStore(witness);
+  let currentRoot = rootRef;
+  const collector = new StepCollector('witness', statelessDb, () => currentRoot);
+  const options = {
+    db: statelessDb,
+    trace: (event: TraceEvent) => collector.fromTrace(event),
+    emitDbGetEvents: true,
+  };
+
+  collector.record({
+    title: 'WITNESS START',
+    log: `Witness for ${ops.length} operations: ${witness.nodeCount} unique nodes, ${witness.bytes} bytes (${witness.naiveBytes} bytes without dedup). The stateless client holds only these nodes and root ${describeRoot(rootRef).commitmentHex}`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+  });
+
+  let failure: string | undefined;
+  for (const [index, op] of ops.entries()) {
+    const stats = witness.ops[index];
+    collector.record({
+      title: 'REPLAY START',
+      log: `Op #${index + 1}: ${op.kind} ${shortLabel(op.entry.keyLabel)}. Witness share: ${stats.touchedNodes} nodes touched, ${stats.newNodes} new (${stats.newBytes} bytes)`,
+      keyNibbles: op.entry.keyNibbles,
+      consumed: 0,
+      changedNodeIds: [],
+    });
+    try {
+      currentRoot = applyWitnessOp(currentRoot, op, options);
+    } catch (error) {
+      failure = (error as Error).message;
+      break;
+    }
+  }
+
+  const matches = !failure && equalBytes(currentRoot, witness.postRootRef);
+  collector.record({
+    title: 'WITNESS RESULT',
+    log: failure
+      ? `Stateless replay failed, the witness is incomplete: ${failure}`
+      : `Stateless post-state root ${describeRoot(currentRoot).commitmentHex} ${matches ? 'matches' : 'differs from'} the full node's ${describeRoot(witness.postRootRef).commitmentHex}`,
+    keyNibbles: [],
+    consumed: 0,
+    changedNodeIds: [],
+    rootRef: currentRoot,
+  });
+
+  return { steps: collector.all(), witness, statelessRootRef: currentRoot, matches };
 }
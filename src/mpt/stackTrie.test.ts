@@ -0,0 +1,63 @@
+import { accountEntry, generateAccounts } from './account';
+import { bytesToHex, compareNibbles } from './bytes';
+import { buildListTrieRoot, generateReceipts, listEntries } from './listTrie';
+import { createRawEntry } from './rawKey';
+import { simulateBuild } from './simulator';
+import { StackTrie } from './stackTrie';
+import { lookupKey } from './trie';
+import type { KeyValueEntry } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+function stackRoot(entries: KeyValueEntry[], db: InMemoryKvStore): Uint8Array {
+  const trie = new StackTrie({ db });
+  [...entries]
+    .sort((a, b) => compareNibbles(a.keyNibbles, b.keyNibbles))
+    .forEach((entry) => trie.insert(entry.keyNibbles, entry.value));
+  return trie.commit().rootRef;
+}
+
+describe('stack trie builder', () => {
+  it('matches the insert loop root for secure, raw and index-keyed tries', () => {
+    const accounts = generateAccounts(17, 24).map(accountEntry);
+    const raw = Object.entries({ do: 'verb', dog: 'puppy', doge: 'coin', horse: 'stallion' }).map(([key, value]) =>
+      createRawEntry(key, value, 'utf8'),
+    );
+    const receipts = generateReceipts(3, 140);
+
+    for (const entries of [accounts, raw]) {
+      const db = new InMemoryKvStore();
+      const rootRef = stackRoot(entries, db);
+      expect(bytesToHex(rootRef)).toEqual(bytesToHex(simulateBuild(entries).rootRef));
+      for (const entry of entries) {
+        expect(lookupKey(rootRef, entry.keyNibbles, { db }).found).toBe(true);
+      }
+    }
+    expect(bytesToHex(stackRoot(raw, new InMemoryKvStore()))).toMatch(/^0x5991bb8c/);
+
+    const db = new InMemoryKvStore();
+    const root = stackRoot(listEntries('receipts', receipts), db);
+    expect(bytesToHex(root)).toEqual(bytesToHex(buildListTrieRoot(receipts)));
+  });
+
+  it('rejects keys that are not strictly increasing', () => {
+    const trie = new StackTrie({ db: new InMemoryKvStore() });
+    trie.insert([1, 2, 3], new Uint8Array([1]));
+    expect(() => trie.insert([1, 2, 3], new Uint8Array([2]))).toThrow(/strictly increasing/);
+    expect(() => trie.insert([1, 2], new Uint8Array([2]))).toThrow(/strictly increasing/);
+  });
+
+  it('writes each node once and leaves no orphans in the build comparison', () => {
+    const entries = generateAccounts(9, 32).map(accountEntry);
+    const stack = simulateBuild(entries, 'immediate', 'stack');
+    const loop = simulateBuild(entries);
+
+    expect(bytesToHex(stack.rootRef)).toEqual(bytesToHex(loop.rootRef));
+    expect(stack.steps.some((step) => step.title === 'SEAL RIGHT EDGE')).toBe(true);
+    const { insert, stack: streamed } = stack.buildComparison;
+    expect(streamed.orphanedNodes).toBe(0);
+    expect(insert.orphanedNodes).toBeGreaterThan(0);
+    expect(streamed.puts).toBe(stack.db.entries().length);
+    expect(streamed.puts).toBeLessThan(insert.puts);
+    expect(streamed.peakNodes).toBeLessThan(insert.peakNodes);
+  });
+});
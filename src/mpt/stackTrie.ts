@@ -0,0 +1,147 @@
+import { compareNibbles, EMPTY_BYTES, nibblesToString } from './bytes';
+import type { CommitOutcome } from './deferredTrie';
+import { commonPrefixLength, finalizeNode, type TrieOperationOptions } from './trie';
+import type { NodeRef, TrieNode } from './types';
+
+interface OpenBranch {
+  type: 'branch';
+  children: (StackNode | undefined)[];
+  value: Uint8Array;
+}
+
+type StackNode =
+  | { type: 'sealed'; ref: NodeRef }
+  | { type: 'leaf'; path: number[]; value: Uint8Array }
+  | { type: 'extension'; path: number[]; child: StackNode }
+  | OpenBranch;
+
+function countOpen(node: StackNode | undefined): number {
+  if (!node || node.type === 'sealed') {
+    return 0;
+  }
+  if (node.type === 'leaf') {
+    return 1;
+  }
+  if (node.type === 'extension') {
+    return 1 + countOpen(node.child);
+  }
+  return node.children.reduce((sum, child) => sum + countOpen(child), 1);
+}
+
+export class StackTrie {
+  private root: StackNode | undefined;
+  private lastKey: number[] | undefined;
+  private options: TrieOperationOptions;
+  private changedNodeIds: string[] = [];
+  private peak = 0;
+
+  constructor(options: TrieOperationOptions) {
+    this.options = options;
+  }
+
+  get openNodeCount(): number {
+    return countOpen(this.root);
+  }
+
+  get peakOpenNodes(): number {
+    return this.peak;
+  }
+
+  insert(key: number[], value: Uint8Array): void {
+    if (this.lastKey && compareNibbles(key, this.lastKey) <= 0) {
+      throw new Error(`StackTrie keys must be strictly increasing: ${nibblesToString(key) || '(empty)'} after ${nibblesToString(this.lastKey) || '(empty)'}`);
+    }
+    this.lastKey = key;
+    this.root = this.insertAt(this.root, key, value, []);
+    this.peak = Math.max(this.peak, this.openNodeCount);
+    this.options.trace?.({
+      kind: 'decision',
+      message: `Insert ${nibblesToString(key).slice(0, 16)}...: ${this.openNodeCount} open nodes on the right edge, everything left of it is hashed`,
+      consumed: key.length,
+      keyRemainder: [],
+    });
+  }
+
+  commit(): CommitOutcome {
+    const rootRef = this.root ? this.seal(this.root, []) : EMPTY_BYTES;
+    this.root = rootRef.length === 0 ? undefined : { type: 'sealed', ref: rootRef };
+    const changedNodeIds = this.changedNodeIds;
+    this.changedNodeIds = [];
+    return { rootRef, changedNodeIds };
+  }
+
+  private sealed(node: StackNode, path: number[]): StackNode {
+    return { type: 'sealed', ref: this.seal(node, path) };
+  }
+
+  private split(shared: number, prefix: number[], key: number[], value: Uint8Array, left: StackNode | undefined, leftIndex: number, leftValue: Uint8Array): StackNode {
+    const branch: OpenBranch = {
+      type: 'branch',
+      children: Array.from({ length: 16 }, () => undefined),
+      value: leftValue,
+    };
+    const branchPath = [...prefix, ...key.slice(0, shared)];
+    if (left) {
+      branch.children[leftIndex] = this.sealed(left, [...branchPath, leftIndex]);
+    }
+    branch.children[key[shared]] = { type: 'leaf', path: key.slice(shared + 1), value };
+    return shared === 0 ? branch : { type: 'extension', path: key.slice(0, shared), child: branch };
+  }
+
+  private insertAt(node: StackNode | undefined, key: number[], value: Uint8Array, prefix: number[]): StackNode {
+    if (!node) {
+      return { type: 'leaf', path: key, value };
+    }
+    if (node.type === 'sealed') {
+      throw new Error(`StackTrie cannot reopen hashed subtree at ${nibblesToString(prefix) || '(root)'}`);
+    }
+
+    if (node.type === 'leaf') {
+      const shared = commonPrefixLength(node.path, key);
+      if (shared === node.path.length) {
+        return this.split(shared, prefix, key, value, undefined, 0, node.value);
+      }
+      const left: StackNode = { type: 'leaf', path: node.path.slice(shared + 1), value: node.value };
+      return this.split(shared, prefix, key, value, left, node.path[shared], EMPTY_BYTES);
+    }
+
+    if (node.type === 'extension') {
+      const shared = commonPrefixLength(node.path, key);
+      if (shared === node.path.length) {
+        const child = this.insertAt(node.child, key.slice(shared), value, [...prefix, ...node.path]);
+        return { type: 'extension', path: node.path, child };
+      }
+      const rest = node.path.slice(shared + 1);
+      const left: StackNode = rest.length === 0 ? node.child : { type: 'extension', path: rest, child: node.child };
+      return this.split(shared, prefix, key, value, left, node.path[shared], EMPTY_BYTES);
+    }
+
+    const index = key[0];
+    const children = node.children.map((child, i) =>
+      child && child.type !== 'sealed' && i < index ? this.sealed(child, [...prefix, i]) : child,
+    );
+    children[index] = this.insertAt(children[index], key.slice(1), value, [...prefix, index]);
+    return { type: 'branch', children, value: node.value };
+  }
+
+  private seal(node: StackNode, path: number[]): NodeRef {
+    if (node.type === 'sealed') {
+      return node.ref;
+    }
+    let trieNode: TrieNode;
+    if (node.type === 'leaf') {
+      trieNode = node;
+    } else if (node.type === 'extension') {
+      trieNode = { type: 'extension', path: node.path, child: this.seal(node.child, [...path, ...node.path]) };
+    } else {
+      trieNode = {
+        type: 'branch',
+        children: node.children.map((child, index) => (child ? this.seal(child, [...path, index]) : EMPTY_BYTES)),
+        value: node.value,
+      };
+    }
+    const finalized = finalizeNode(trieNode, path.length, [], `Hash finished ${trieNode.type} at path ${nibblesToString(path) || '(root)'}`, this.options);
+    this.changedNodeIds.push(finalized.id);
+    return finalized.ref;
+  }
+}
@@ -0,0 +1,57 @@
+import { accountEntry, decodeAccountValue, encodeAccountValue, generateAccounts } from './account';
+import { bytesToHex, equalBytes } from './bytes';
+import { EMPTY_TRIE_ROOT } from './crypto';
+import { simulateBuild, simulateStorageWrite } from './simulator';
+import { readStorageSlot, writeStorageSlot } from './storage';
+import { describeRoot, insertKeyValue, lookupKey } from './trie';
+import { InMemoryKvStore } from '../store/kv';
+
+describe('per-account storage tries', () => {
+  it('writes, overwrites, and clears slots in a storage trie', () => {
+    const db = new InMemoryKvStore();
+    let storageRoot = EMPTY_TRIE_ROOT;
+    storageRoot = writeStorageSlot(storageRoot, 0n, 42n, { db }).storageRoot;
+    storageRoot = writeStorageSlot(storageRoot, 1n, 7n, { db }).storageRoot;
+    expect(readStorageSlot(storageRoot, 0n, { db })).toBe(42n);
+    expect(readStorageSlot(storageRoot, 1n, { db })).toBe(7n);
+    expect(readStorageSlot(storageRoot, 2n, { db })).toBe(0n);
+
+    const single = writeStorageSlot(EMPTY_TRIE_ROOT, 1n, 7n, { db }).storageRoot;
+    storageRoot = writeStorageSlot(storageRoot, 0n, 0n, { db }).storageRoot;
+    expect(bytesToHex(storageRoot)).toEqual(bytesToHex(single));
+
+    storageRoot = writeStorageSlot(storageRoot, 1n, 0n, { db }).storageRoot;
+    expect(equalBytes(storageRoot, EMPTY_TRIE_ROOT)).toBe(true);
+  });
+
+  it('propagates the storage root through the account leaf into the state root', () => {
+    const accounts = generateAccounts(4, 6);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const target = accounts[2];
+
+    const result = simulateStorageWrite(built.rootRef, built.db, target, 3n, 99n, false);
+    const leaf = lookupKey(result.rootRef, target.keyNibbles, { db: result.db });
+    const stored = decodeAccountValue(leaf.value ?? new Uint8Array());
+    expect(stored.storageRootHex).toEqual(bytesToHex(result.updatedAccount.storageRoot));
+    expect(stored.balance).toBe(target.balance);
+    expect(readStorageSlot(result.updatedAccount.storageRoot, 3n, { db: result.db })).toBe(99n);
+
+    const db = new InMemoryKvStore();
+    let expected: Uint8Array = new Uint8Array();
+    for (const account of accounts) {
+      const value =
+        account === target
+          ? encodeAccountValue(account.nonce, account.balance, result.updatedAccount.storageRoot)
+          : account.accountRlp;
+      expected = insertKeyValue(expected, account.keyNibbles, value, { db }).rootRef;
+    }
+    expect(describeRoot(result.rootRef).commitmentHex).toEqual(describeRoot(expected).commitmentHex);
+    expect(describeRoot(result.rootRef).commitmentHex).not.toEqual(describeRoot(built.rootRef).commitmentHex);
+
+    const titles = result.steps.map((step) => step.title);
+    expect(titles).toContain('STORAGE ROOT');
+    expect(titles.indexOf('STORAGE ROOT')).toBeLessThan(titles.indexOf('ACCOUNT UPDATE'));
+    expect(result.steps.find((step) => step.title === 'STORAGE ROOT')?.storageView?.address).toEqual(target.address);
+    expect(result.steps.find((step) => step.title === 'SSTORE RESULT')?.storageView).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { decode as rlpDecode, encode as rlpEncode } from '@ethereumjs/rlp';
+import { bigintToBytes, bytesToBigint, equalBytes, toNibbles } from './bytes';
+import { EMPTY_TRIE_ROOT, keccak } from './crypto';
+import { commitRootRef, deleteKey, insertKeyValue, lookupKey, type TrieOperationOptions } from './trie';
+
+export interface StorageWriteOutcome {
+  storageRoot: Uint8Array;
+  changedNodeIds: string[];
+}
+
+export function storageSlotKey(slot: bigint): number[] {
+  const raw = bigintToBytes(slot);
+  const slotBytes = new Uint8Array(32);
+  slotBytes.set(raw, 32 - raw.length);
+  return toNibbles(keccak(slotBytes));
+}
+
+export function encodeStorageValue(value: bigint): Uint8Array {
+  return rlpEncode(bigintToBytes(value));
+}
+
+export function decodeStorageValue(encoded: Uint8Array): bigint {
+  const decoded = rlpDecode(encoded);
+  if (!(decoded instanceof Uint8Array)) {
+    throw new Error('Expected storage value to be an RLP byte string');
+  }
+  return bytesToBigint(decoded);
+}
+
+export function storageRootRef(storageRoot: Uint8Array): Uint8Array {
+  return equalBytes(storageRoot, EMPTY_TRIE_ROOT) ? new Uint8Array() : storageRoot;
+}
+
+export function readStorageSlot(storageRoot: Uint8Array, slot: bigint, options: TrieOperationOptions): bigint {
+  const result = lookupKey(storageRootRef(storageRoot), storageSlotKey(slot), options);
+  return result.found && result.value ? decodeStorageValue(result.value) : 0n;
+}
+
+export function writeStorageSlot(
+  storageRoot: Uint8Array,
+  slot: bigint,
+  value: bigint,
+  options: TrieOperationOptions,
+): StorageWriteOutcome {
+  if (slot < 0n || slot >= 2n ** 256n) {
+    throw new Error(`Storage slot out of range: ${slot.toString()}`);
+  }
+  if (value < 0n || value >= 2n ** 256n) {
+    throw new Error(`Storage value out of range: ${value.toString()}`);
+  }
+  const key = storageSlotKey(slot);
+  const written =
+    value === 0n
+      ? deleteKey(storageRootRef(storageRoot), key, options)
+      : insertKeyValue(storageRootRef(storageRoot), key, encodeStorageValue(value), options);
+  return {
+    storageRoot: commitRootRef(written.rootRef, options),
+    changedNodeIds: written.changedNodeIds,
+  };
+}
@@ -1,6 +1,8 @@
 import { generateAccounts } from './account';
-import { bytesToHex, equalBytes } from './bytes';
-import { insertKeyValue, lookupKey } from './trie';
+import { bytesToHex, compareNibbles, equalBytes } from './bytes';
+import { keccak } from './crypto';
+import { deleteKey, getProof, insertKeyValue, iterateLeaves, lookupKey, prefixLeaves, seekLeaves } from './trie';
+import type { TraceEvent } from './types';
 import { InMemoryKvStore } from '../store/kv';
 
 function buildRoot(seed: number, count: number): { rootRef: Uint8Array; rootHex: string; store: InMemoryKvStore; accounts: ReturnType<typeof generateAccounts> } {
@@ -13,6 +15,15 @@ function buildRoot(seed: number, count: number): { rootRef: Uint8Array; rootHex:
   return { rootRef, rootHex: bytesToHex(rootRef), store, accounts };
 }
 
+function buildFromKeys(keys: number[][]): { rootRef: Uint8Array; store: InMemoryKvStore } {
+  const store = new InMemoryKvStore();
+  let rootRef: Uint8Array = new Uint8Array();
+  for (const key of keys) {
+    rootRef = insertKeyValue(rootRef, key, new Uint8Array([0x10 + key.length, ...key]), { db: store }).rootRef;
+  }
+  return { rootRef, store };
+}
+
 describe('trie insertion and lookup consistency', () => {
   it('finds every inserted generated account', () => {
     const { rootRef, store, accounts } = buildRoot(42, 16);
@@ -31,3 +42,138 @@ describe('trie insertion and lookup consistency', () => {
     expect(first).toEqual(second);
   });
 });
+
+describe('trie lookup divergence', () => {
+  it.each([
+    { key: [3, 0, 0], divergence: 'missing-child' },
+    { key: [2, 0, 0], divergence: 'leaf-mismatch' },
+    { key: [1, 9, 9], divergence: 'extension-mismatch' },
+  ])('classifies absent key $key as $divergence', ({ key, divergence }) => {
+    const { rootRef, store } = buildFromKeys([[1, 2, 3], [1, 2, 4], [2, 5, 5]]);
+
+    const lookup = lookupKey(rootRef, key, { db: store });
+    expect(lookup.found).toBe(false);
+    expect(lookup.divergence).toBe(divergence);
+    expect(getProof(rootRef, key, store).divergence).toBe(divergence);
+  });
+});
+
+describe('trie deletion', () => {
+  it('matches the root of a trie built without the deleted account', () => {
+    const { rootRef, store, accounts } = buildRoot(7, 12);
+
+    accounts.forEach((account, index) => {
+      const removed = deleteKey(rootRef, account.keyNibbles, { db: store });
+      const expectedStore = new InMemoryKvStore();
+      let expectedRoot: Uint8Array = new Uint8Array();
+      for (const entry of accounts.filter((_, other) => other !== index)) {
+        expectedRoot = insertKeyValue(expectedRoot, entry.keyNibbles, entry.accountRlp, { db: expectedStore }).rootRef;
+      }
+      expect(removed.deleted).toBe(true);
+      expect(bytesToHex(removed.rootRef)).toEqual(bytesToHex(expectedRoot));
+      expect(lookupKey(removed.rootRef, account.keyNibbles, { db: store }).found).toBe(false);
+    });
+  });
+
+  it('collapses branches, branch values, and extension pairs into canonical form', () => {
+    const keys = [[1, 2, 3], [1, 2, 3, 4], [1, 2, 5, 6, 7], [1, 2, 5, 6, 8], [9], [1, 2]];
+    const { rootRef, store } = buildFromKeys(keys);
+
+    keys.forEach((key, index) => {
+      const removed = deleteKey(rootRef, key, { db: store });
+      const expectedRoot = buildFromKeys(keys.filter((_, other) => other !== index)).rootRef;
+      expect(removed.deleted).toBe(true);
+      expect(bytesToHex(removed.rootRef)).toEqual(bytesToHex(expectedRoot));
+    });
+  });
+
+  it('leaves the root untouched for absent keys and empties a single-leaf trie', () => {
+    const store = new InMemoryKvStore();
+    const rootRef = insertKeyValue(new Uint8Array(), [1, 2, 3], new Uint8Array([0x01]), { db: store }).rootRef;
+
+    const absent = deleteKey(rootRef, [1, 2, 4], { db: store });
+    expect(absent.deleted).toBe(false);
+    expect(equalBytes(absent.rootRef, rootRef)).toBe(true);
+
+    const emptied = deleteKey(rootRef, [1, 2, 3], { db: store });
+    expect(emptied.deleted).toBe(true);
+    expect(emptied.rootRef.length).toBe(0);
+  });
+});
+
+describe('trie proof generation', () => {
+  it('lists the root and every hash-referenced node down to the leaf', () => {
+    const { rootRef, store, accounts } = buildRoot(42, 16);
+
+    for (const account of accounts) {
+      const proof = getProof(rootRef, account.keyNibbles, store);
+      expect(proof.found).toBe(true);
+      expect(equalBytes(proof.value!, account.accountRlp)).toBe(true);
+      expect(equalBytes(keccak(proof.proof[0]), rootRef)).toBe(true);
+      expect(proof.proof.every((rlp) => rlp.length >= 32)).toBe(true);
+      expect(proof.nodeIds).toHaveLength(proof.proof.length);
+    }
+  });
+
+  it('stops at the point of divergence for absent keys', () => {
+    const { rootRef, store } = buildRoot(42, 16);
+    const absentKey = Array.from({ length: 64 }, () => 0);
+
+    const proof = getProof(rootRef, absentKey, store);
+    expect(proof.found).toBe(false);
+    expect(proof.mismatchReason).toBeDefined();
+    expect(proof.proof.length).toBeGreaterThan(0);
+  });
+
+  it('keeps embedded children inside their parent proof element', () => {
+    const { rootRef, store } = buildFromKeys([[1, 2], [1, 3], [2]]);
+
+    const proof = getProof(rootRef, [1, 3], store);
+    expect(proof.found).toBe(true);
+    expect(rootRef).toHaveLength(32);
+    expect(proof.proof).toHaveLength(1);
+    expect(equalBytes(keccak(proof.proof[0]), rootRef)).toBe(true);
+  });
+});
+
+describe('ordered trie iteration', () => {
+  it('yields every leaf in key order with its node path', () => {
+    const { rootRef, store, accounts } = buildRoot(42, 16);
+    const sorted = accounts.map((account) => account.keyNibbles).sort(compareNibbles);
+
+    const leaves = Array.from(iterateLeaves(rootRef, { db: store }));
+    expect(leaves.map((leaf) => leaf.key)).toEqual(sorted);
+    for (const leaf of leaves) {
+      expect(leaf.pathNodeIds[0]).toEqual(bytesToHex(rootRef));
+      expect(lookupKey(rootRef, leaf.key, { db: store }).found).toBe(true);
+    }
+  });
+
+  it('seeks to the first key at or after the start key', () => {
+    const { rootRef, store } = buildFromKeys([[1], [1, 2], [1, 2, 3], [1, 3], [2, 0, 1], [4]]);
+
+    expect(Array.from(seekLeaves(rootRef, [1, 2, 5], { db: store })).map((leaf) => leaf.key)).toEqual([[1, 3], [2, 0, 1], [4]]);
+    expect(Array.from(seekLeaves(rootRef, [1, 2], { db: store })).map((leaf) => leaf.key)).toEqual([
+      [1, 2],
+      [1, 2, 3],
+      [1, 3],
+      [2, 0, 1],
+      [4],
+    ]);
+  });
+
+  it('lists only keys under a prefix and traces the nodes it resolves', () => {
+    const { rootRef, store, accounts } = buildRoot(42, 16);
+    const prefix = [accounts[0].keyNibbles[0]];
+    const expected = accounts
+      .map((account) => account.keyNibbles)
+      .filter((key) => key[0] === prefix[0])
+      .sort(compareNibbles);
+    const events: TraceEvent[] = [];
+
+    const leaves = Array.from(prefixLeaves(rootRef, prefix, { db: store, trace: (event) => events.push(event), emitDbGetEvents: true }));
+    expect(leaves.map((leaf) => leaf.key)).toEqual(expected);
+    expect(events.filter((event) => event.kind === 'result')).toHaveLength(expected.length);
+    expect(events.some((event) => event.kind === 'db-get')).toBe(true);
+  });
+});
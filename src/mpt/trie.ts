@@ -1,8 +1,27 @@
-import { bytesToHex, cloneBytes, EMPTY_BYTES, equalBytes, hexToBytes, nibblesToString } from './bytes';
+import {
+  bytesToHex,
+  cloneBytes,
+  compareNibbles,
+  EMPTY_BYTES,
+  equalBytes,
+  hexToBytes,
+  isNibblePrefix,
+  nibblesToString,
+} from './bytes';
 import { EMPTY_TRIE_ROOT, keccak } from './crypto';
-import { detailForNode, decodeTrieNode, encodeTrieNode, inspectNode, nodeIdFromRef, refKindFromRef, summaryForNode } from './nodeCodec';
+import {
+  detailForNode,
+  decodeTrieNode,
+  encodeTrieNode,
+  inspectNode,
+  nodeIdFromRef,
+  nodeReferences,
+  refKindFromRef,
+  summaryForNode,
+} from './nodeCodec';
 import type {
   BranchNode,
+  DivergenceKind,
   NodeRef,
   RootDisplay,
   TraceEvent,
@@ -12,11 +31,12 @@ import type {
   TrieNode,
 } from './types';
 import { InMemoryKvStore } from '../store/kv';
+import type { NodeCacheStore } from '../store/nodeCache';
 
 export interface TrieOperationOptions {
   db: InMemoryKvStore;
   trace?: (event: TraceEvent) => void;
-  cache?: Map<string, Uint8Array>;
+  cache?: NodeCacheStore;
   useCache?: boolean;
   emitDbGetEvents?: boolean;
 }
@@ -26,30 +46,58 @@ export interface InsertOutcome {
   changedNodeIds: string[];
 }
 
+export interface DeleteOutcome {
+  rootRef: Uint8Array;
+  changedNodeIds: string[];
+  deleted: boolean;
+}
+
 export interface LookupOutcome {
   found: boolean;
   value?: Uint8Array;
   mismatchReason?: string;
+  divergence?: DivergenceKind;
+}
+
+export interface TrieLeafEntry {
+  key: number[];
+  value: Uint8Array;
+  pathNodeIds: string[];
+}
+
+export interface ProofOutcome extends LookupOutcome {
+  proof: Uint8Array[];
+  nodeIds: string[];
+  pathNodeIds: string[];
 }
 
-interface ResolvedNode {
+export interface ResolvedNode {
   node: TrieNode;
   rlp: Uint8Array;
   id: string;
 }
 
-interface FinalizedNode {
+export interface FinalizedNode {
   ref: Uint8Array;
   id: string;
 }
 
+interface DeletedSubtree extends DeleteOutcome {
+  node?: TrieNode;
+}
+
+interface IterationBounds {
+  start?: number[];
+  prefix?: number[];
+}
+
 function emit(trace: TrieOperationOptions['trace'], event: TraceEvent): void {
   if (trace) {
     trace(event);
   }
 }
 
-function commonPrefixLength(a: number[], b: number[]): number {
+export function commonPrefixLength(a: number[], b: number[]): number {
   const length = Math.min(a.length, b.length);
   let i = 0;
   while (i < length && a[i] === b[i]) {
@@ -78,20 +126,29 @@ function emptyBranch(value: Uint8Array = EMPTY_BYTES): BranchNode {
   };
 }
 
-function resolveNode(ref: NodeRef, consumed: number, keyRemainder: number[], options: TrieOperationOptions): ResolvedNode {
+export function resolveNode(ref: NodeRef, consumed: number, keyRemainder: number[], options: TrieOperationOptions): ResolvedNode {
   let rlp: Uint8Array;
   if (ref.length === 32) {
     const keyHex = bytesToHex(ref);
-    let fromCache = false;
-    if (options.useCache && options.cache?.has(keyHex)) {
-      rlp = options.cache.get(keyHex)!;
-      fromCache = true;
+    const cached = options.useCache ? options.cache?.get(keyHex) : undefined;
+    const fromCache = cached !== undefined;
+    if (cached) {
+      rlp = cached;
     } else {
       const dbHex = options.db.get(keyHex);
+      const broken = (message: string): Error => {
+        if (options.emitDbGetEvents) {
+          emit(options.trace, { kind: 'db-get', message, consumed, keyRemainder, dbAction: 'GET', dbKeyHex: keyHex });
+        }
+        return new Error(message);
+      };
       if (!dbHex) {
-        throw new Error(`Missing node in DB for hash ${keyHex}`);
+        throw broken(`Missing node in DB for hash ${keyHex}`);
       }
       rlp = hexToBytes(dbHex);
+      if (!equalBytes(keccak(rlp), ref)) {
+        throw broken(`Hash chain broken: DB row ${keyHex} holds bytes hashing to ${bytesToHex(keccak(rlp))}`);
+      }
       if (options.useCache && options.cache) {
         options.cache.set(keyHex, rlp);
       }
@@ -118,33 +175,19 @@ function resolveNode(ref: NodeRef, consumed: number, keyRemainder: number[], opt
   };
 }
 
-function finalizeNode(
+function persistNode(
   node: TrieNode,
+  rlp: Uint8Array,
   consumed: number,
   keyRemainder: number[],
   message: string,
   options: TrieOperationOptions,
 ): FinalizedNode {
-  const rlp = encodeTrieNode(node);
-  if (rlp.length < 32) {
-    const ref = rlp;
-    const id = nodeIdFromRef(ref);
-    const inspection = inspectNode(node, rlp, ref);
-    emit(options.trace, {
-      kind: 'finalize',
-      message: `${message} -> embedded (${rlp.length} bytes)`,
-      consumed,
-      keyRemainder,
-      activeNodeId: id,
-      activeNode: inspection,
-      changedNodeId: id,
-    });
-    return { ref, id };
-  }
-
   const hash = keccak(rlp);
   const keyHex = bytesToHex(hash);
-  options.db.put(keyHex, bytesToHex(rlp), node.type);
+  if (options.db.put(keyHex, bytesToHex(rlp), node.type)) {
+    nodeReferences(node).forEach((child) => options.db.addReference(child, 1));
+  }
   if (options.useCache && options.cache) {
     options.cache.set(keyHex, rlp);
   }
@@ -172,6 +215,43 @@ function finalizeNode(
   return { ref: hash, id: keyHex };
 }
 
+export function commitRootRef(rootRef: Uint8Array, options: TrieOperationOptions): Uint8Array {
+  if (rootRef.length === 0) {
+    return EMPTY_TRIE_ROOT;
+  }
+  if (rootRef.length === 32) {
+    return rootRef;
+  }
+  return persistNode(decodeTrieNode(rootRef), rootRef, 0, [], 'Persist embedded root by hash', options).ref;
+}
+
+export function finalizeNode(
+  node: TrieNode,
+  consumed: number,
+  keyRemainder: number[],
+  message: string,
+  options: TrieOperationOptions,
+): FinalizedNode {
+  const rlp = encodeTrieNode(node);
+  if (rlp.length < 32) {
+    const ref = rlp;
+    const id = nodeIdFromRef(ref);
+    const inspection = inspectNode(node, rlp, ref);
+    emit(options.trace, {
+      kind: 'finalize',
+      message: `${message} -> embedded (${rlp.length} bytes)`,
+      consumed,
+      keyRemainder,
+      activeNodeId: id,
+      activeNode: inspection,
+      changedNodeId: id,
+    });
+    return { ref, id };
+  }
+
+  return persistNode(node, rlp, consumed, keyRemainder, message, options);
+}
+
 function cloneChildren(children: NodeRef[]): NodeRef[] {
   return children.map((child) => (child.length === 0 ? EMPTY_BYTES : cloneBytes(child)));
 }
@@ -370,6 +450,308 @@ export function insertKeyValue(rootRef: NodeRef, key: number[], value: Uint8Arra
   return insertAt(rootRef, key, value, 0, options);
 }
 
+function attachPrefix(
+  prefix: number[],
+  childRef: NodeRef,
+  childNode: TrieNode | undefined,
+  consumed: number,
+  key: number[],
+  options: TrieOperationOptions,
+): DeletedSubtree {
+  if (childRef.length === 0) {
+    return { rootRef: EMPTY_BYTES, changedNodeIds: [], deleted: true };
+  }
+
+  let child = childNode;
+  if (!child) {
+    const resolved = resolveNode(childRef, consumed + prefix.length, key, options);
+    emit(options.trace, {
+      kind: 'visit',
+      message: `Visit remaining ${resolved.node.type} child to merge path ${nibblesToString(prefix)}`,
+      consumed: consumed + prefix.length,
+      keyRemainder: key,
+      activeNodeId: resolved.id,
+      activeNode: inspectNode(resolved.node, resolved.rlp, childRef),
+    });
+    child = resolved.node;
+  }
+
+  let merged: TrieNode;
+  let message: string;
+  if (child.type === 'leaf') {
+    merged = { type: 'leaf', path: [...prefix, ...child.path], value: child.value };
+    message = `Finalize merged leaf (prefix ${nibblesToString(prefix)})`;
+  } else if (child.type === 'extension') {
+    merged = { type: 'extension', path: [...prefix, ...child.path], child: child.child };
+    message = `Finalize merged extension-extension pair (prefix ${nibblesToString(prefix)})`;
+  } else {
+    merged = { type: 'extension', path: prefix, child: childRef };
+    message = 'Finalize extension after child delete';
+  }
+
+  const finalized = finalizeNode(merged, consumed, key, message, options);
+  return { rootRef: finalized.ref, changedNodeIds: [finalized.id], deleted: true, node: merged };
+}
+
+function collapseBranch(branch: BranchNode, consumed: number, key: number[], options: TrieOperationOptions): DeletedSubtree {
+  const used: number[] = [];
+  for (let i = 0; i < branch.children.length; i += 1) {
+    if (branch.children[i].length > 0) {
+      used.push(i);
+    }
+  }
+  const hasValue = branch.value.length > 0;
+
+  if (used.length + (hasValue ? 1 : 0) >= 2) {
+    const rebuilt = finalizeNode(branch, consumed, key, 'Finalize branch after delete', options);
+    return { rootRef: rebuilt.ref, changedNodeIds: [rebuilt.id], deleted: true, node: branch };
+  }
+
+  if (used.length === 0) {
+    if (!hasValue) {
+      emit(options.trace, {
+        kind: 'decision',
+        message: 'Branch left empty: remove it',
+        consumed,
+        keyRemainder: key,
+      });
+      return { rootRef: EMPTY_BYTES, changedNodeIds: [], deleted: true };
+    }
+    emit(options.trace, {
+      kind: 'decision',
+      message: 'Branch left with only its value slot: collapse into leaf',
+      consumed,
+      keyRemainder: key,
+    });
+    const leaf: TrieNode = { type: 'leaf', path: [], value: branch.value };
+    const collapsed = finalizeNode(leaf, consumed, key, 'Finalize collapsed leaf', options);
+    return { rootRef: collapsed.ref, changedNodeIds: [collapsed.id], deleted: true, node: leaf };
+  }
+
+  const index = used[0];
+  emit(options.trace, {
+    kind: 'decision',
+    message: `Branch left with single child @${index.toString(16)}: collapse`,
+    consumed,
+    keyRemainder: key,
+  });
+  return attachPrefix([index], branch.children[index], undefined, consumed, key, options);
+}
+
+function deleteAt(ref: NodeRef, key: number[], consumed: number, options: TrieOperationOptions): DeletedSubtree {
+  const unchanged: DeletedSubtree = { rootRef: ref, changedNodeIds: [], deleted: false };
+  if (ref.length === 0) {
+    emit(options.trace, {
+      kind: 'result',
+      message: 'Missing child reference: nothing to delete',
+      consumed,
+      keyRemainder: key,
+    });
+    return unchanged;
+  }
+
+  const resolved = resolveNode(ref, consumed, key, options);
+  emit(options.trace, {
+    kind: 'visit',
+    message: `Visit ${resolved.node.type} node`,
+    consumed,
+    keyRemainder: key,
+    activeNodeId: resolved.id,
+    activeNode: inspectNode(resolved.node, resolved.rlp, ref),
+  });
+
+  if (resolved.node.type === 'leaf') {
+    if (!equalBytes(new Uint8Array(resolved.node.path), new Uint8Array(key))) {
+      emit(options.trace, {
+        kind: 'result',
+        message: `Leaf mismatch (expected ${nibblesToString(resolved.node.path)}, got ${nibblesToString(key)}): nothing to delete`,
+        consumed,
+        keyRemainder: key,
+        activeNodeId: resolved.id,
+      });
+      return unchanged;
+    }
+    emit(options.trace, {
+      kind: 'decision',
+      message: 'Leaf path fully matched: remove leaf',
+      consumed,
+      keyRemainder: [],
+      activeNodeId: resolved.id,
+    });
+    return { rootRef: EMPTY_BYTES, changedNodeIds: [], deleted: true };
+  }
+
+  if (resolved.node.type === 'extension') {
+    const ext = resolved.node;
+    if (!startsWith(key, ext.path)) {
+      emit(options.trace, {
+        kind: 'result',
+        message: `Extension mismatch at path ${nibblesToString(ext.path)}: nothing to delete`,
+        consumed,
+        keyRemainder: key,
+        activeNodeId: resolved.id,
+      });
+      return unchanged;
+    }
+    emit(options.trace, {
+      kind: 'decision',
+      message: `Extension path matched ${nibblesToString(ext.path)}`,
+      consumed,
+      keyRemainder: key.slice(ext.path.length),
+      activeNodeId: resolved.id,
+    });
+    const childDelete = deleteAt(ext.child, key.slice(ext.path.length), consumed + ext.path.length, options);
+    if (!childDelete.deleted) {
+      return unchanged;
+    }
+    const merged = attachPrefix(ext.path, childDelete.rootRef, childDelete.node, consumed, key, options);
+    return { ...merged, changedNodeIds: [...childDelete.changedNodeIds, ...merged.changedNodeIds] };
+  }
+
+  const branch = resolved.node;
+  const nextBranch: BranchNode = {
+    type: 'branch',
+    children: cloneChildren(branch.children),
+    value: branch.value.length === 0 ? EMPTY_BYTES : cloneBytes(branch.value),
+  };
+  const changedNodeIds: string[] = [];
+
+  if (key.length === 0) {
+    if (branch.value.length === 0) {
+      emit(options.trace, {
+        kind: 'result',
+        message: 'Branch value slot empty: nothing to delete',
+        consumed,
+        keyRemainder: key,
+        activeNodeId: resolved.id,
+      });
+      return unchanged;
+    }
+    emit(options.trace, {
+      kind: 'decision',
+      message: 'Clear branch value slot',
+      consumed,
+      keyRemainder: key,
+      activeNodeId: resolved.id,
+    });
+    nextBranch.value = EMPTY_BYTES;
+  } else {
+    const index = key[0];
+    emit(options.trace, {
+      kind: 'decision',
+      message: `Traverse branch index ${index.toString(16)}`,
+      consumed,
+      keyRemainder: key.slice(1),
+      activeNodeId: resolved.id,
+    });
+    const childDelete = deleteAt(branch.children[index], key.slice(1), consumed + 1, options);
+    if (!childDelete.deleted) {
+      return unchanged;
+    }
+    nextBranch.children[index] = childDelete.rootRef;
+    changedNodeIds.push(...childDelete.changedNodeIds);
+  }
+
+  const collapsed = collapseBranch(nextBranch, consumed, key, options);
+  return { ...collapsed, changedNodeIds: [...changedNodeIds, ...collapsed.changedNodeIds] };
+}
+
+export function deleteKey(rootRef: NodeRef, key: number[], options: TrieOperationOptions): DeleteOutcome {
+  const { rootRef: nextRootRef, changedNodeIds, deleted } = deleteAt(rootRef, key, 0, options);
+  return { rootRef: nextRootRef, changedNodeIds, deleted };
+}
+
+function subtreeInBounds(subtreePrefix: number[], bounds: IterationBounds): boolean {
+  if (bounds.start && !isNibblePrefix(subtreePrefix, bounds.start) && compareNibbles(subtreePrefix, bounds.start) < 0) {
+    return false;
+  }
+  if (bounds.prefix && !isNibblePrefix(subtreePrefix, bounds.prefix) && !isNibblePrefix(bounds.prefix, subtreePrefix)) {
+    return false;
+  }
+  return true;
+}
+
+function keyInBounds(key: number[], bounds: IterationBounds): boolean {
+  if (bounds.start && compareNibbles(key, bounds.start) < 0) {
+    return false;
+  }
+  return !bounds.prefix || isNibblePrefix(bounds.prefix, key);
+}
+
+function* walkLeaves(
+  ref: NodeRef,
+  keyPrefix: number[],
+  pathNodeIds: string[],
+  bounds: IterationBounds,
+  options: TrieOperationOptions,
+): Generator<TrieLeafEntry> {
+  if (ref.length === 0 || !subtreeInBounds(keyPrefix, bounds)) {
+    return;
+  }
+  const target = bounds.start ?? bounds.prefix ?? [];
+  const keyRemainder = isNibblePrefix(keyPrefix, target) ? target.slice(keyPrefix.length) : [];
+  const resolved = resolveNode(ref, keyPrefix.length, keyRemainder, options);
+  const nodePath = [...pathNodeIds, resolved.id];
+  emit(options.trace, {
+    kind: 'visit',
+    message: `Visit ${resolved.node.type} node at path ${nibblesToString(keyPrefix) || '(root)'}`,
+    consumed: keyPrefix.length,
+    keyRemainder,
+    activeNodeId: resolved.id,
+    activeNode: inspectNode(resolved.node, resolved.rlp, ref),
+  });
+
+  const yieldLeaf = (key: number[], value: Uint8Array): TrieLeafEntry => {
+    emit(options.trace, {
+      kind: 'result',
+      message: `Yield key ${nibblesToString(key) || '(empty)'}`,
+      consumed: key.length,
+      keyRemainder: [],
+      activeNodeId: resolved.id,
+    });
+    return { key, value, pathNodeIds: nodePath };
+  };
+
+  const node = resolved.node;
+  if (node.type === 'leaf') {
+    const key = [...keyPrefix, ...node.path];
+    if (keyInBounds(key, bounds)) {
+      yield yieldLeaf(key, node.value);
+    }
+    return;
+  }
+  if (node.type === 'extension') {
+    yield* walkLeaves(node.child, [...keyPrefix, ...node.path], nodePath, bounds, options);
+    return;
+  }
+  if (node.value.length > 0 && keyInBounds(keyPrefix, bounds)) {
+    yield yieldLeaf(keyPrefix, node.value);
+  }
+  for (let i = 0; i < node.children.length; i += 1) {
+    yield* walkLeaves(node.children[i], [...keyPrefix, i], nodePath, bounds, options);
+  }
+}
+
+export function iterateLeaves(rootRef: NodeRef, options: TrieOperationOptions): Generator<TrieLeafEntry> {
+  return walkLeaves(rootRef, [], [], {}, options);
+}
+
+export function seekLeaves(rootRef: NodeRef, start: number[], options: TrieOperationOptions): Generator<TrieLeafEntry> {
+  return walkLeaves(rootRef, [], [], { start }, options);
+}
+
+export function prefixLeaves(rootRef: NodeRef, prefix: number[], options: TrieOperationOptions): Generator<TrieLeafEntry> {
+  return walkLeaves(rootRef, [], [], { prefix }, options);
+}
+
+export function leafMismatchReason(leafPath: number[], key: number[]): string {
+  return `Leaf mismatch (expected ${nibblesToString(leafPath)}, got ${nibblesToString(key)})`;
+}
+
+export function extensionMismatchReason(extPath: number[]): string {
+  return `Extension mismatch at path ${nibblesToString(extPath)}`;
+}
+
 function lookupAt(
   ref: NodeRef,
   key: number[],
@@ -384,7 +766,7 @@ function lookupAt(
       consumed,
       keyRemainder: key,
     });
-    return { found: false, mismatchReason };
+    return { found: false, mismatchReason, divergence: 'missing-child' };
   }
 
   const resolved = resolveNode(ref, consumed, key, options);
@@ -408,7 +790,7 @@ function lookupAt(
       });
       return { found: true, value: resolved.node.value };
     }
-    const mismatchReason = `Leaf mismatch (expected ${nibblesToString(resolved.node.path)}, got ${nibblesToString(key)})`;
+    const mismatchReason = leafMismatchReason(resolved.node.path, key);
     emit(options.trace, {
       kind: 'result',
       message: mismatchReason,
@@ -416,12 +798,12 @@ function lookupAt(
       keyRemainder: key,
       activeNodeId: resolved.id,
     });
-    return { found: false, mismatchReason };
+    return { found: false, mismatchReason, divergence: 'leaf-mismatch' };
   }
 
   if (resolved.node.type === 'extension') {
     if (!startsWith(key, resolved.node.path)) {
-      const mismatchReason = `Extension mismatch at path ${nibblesToString(resolved.node.path)}`;
+      const mismatchReason = extensionMismatchReason(resolved.node.path);
       emit(options.trace, {
         kind: 'result',
         message: mismatchReason,
@@ -429,7 +811,7 @@ function lookupAt(
         keyRemainder: key,
         activeNodeId: resolved.id,
       });
-      return { found: false, mismatchReason };
+      return { found: false, mismatchReason, divergence: 'extension-mismatch' };
     }
     emit(options.trace, {
       kind: 'decision',
@@ -451,7 +833,7 @@ function lookupAt(
         keyRemainder: key,
         activeNodeId: resolved.id,
       });
-      return { found: false, mismatchReason };
+      return { found: false, mismatchReason, divergence: 'branch-value-empty' };
     }
     emit(options.trace, {
       kind: 'result',
@@ -478,6 +860,68 @@ export function lookupKey(rootRef: NodeRef, key: number[], options: TrieOperatio
   return lookupAt(rootRef, key, 0, options);
 }
 
+export function getProof(rootRef: NodeRef, key: number[], db: InMemoryKvStore): ProofOutcome {
+  const proof: Uint8Array[] = [];
+  const nodeIds: string[] = [];
+  const pathNodeIds: string[] = [];
+  const absent = (mismatchReason: string, divergence: DivergenceKind): ProofOutcome => ({
+    found: false,
+    mismatchReason,
+    divergence,
+    proof,
+    nodeIds,
+    pathNodeIds,
+  });
+
+  let ref = rootRef;
+  let remainder = key;
+  while (true) {
+    if (ref.length === 0) {
+      return absent('Missing child reference', 'missing-child');
+    }
+    let resolved: ResolvedNode;
+    try {
+      resolved = resolveNodeWithoutTrace(ref, db);
+    } catch (error) {
+      const stored = ref.length === 32 ? db.get(bytesToHex(ref)) : undefined;
+      if (stored) {
+        proof.push(hexToBytes(stored));
+        nodeIds.push(bytesToHex(ref));
+      }
+      return { found: false, mismatchReason: (error as Error).message, proof, nodeIds, pathNodeIds };
+    }
+    pathNodeIds.push(resolved.id);
+    if (ref.length === 32 || proof.length === 0) {
+      proof.push(resolved.rlp);
+      nodeIds.push(resolved.id);
+    }
+
+    const node = resolved.node;
+    if (node.type === 'leaf') {
+      if (equalBytes(new Uint8Array(node.path), new Uint8Array(remainder))) {
+        return { found: true, value: node.value, proof, nodeIds, pathNodeIds };
+      }
+      return absent(leafMismatchReason(node.path, remainder), 'leaf-mismatch');
+    }
+    if (node.type === 'extension') {
+      if (!startsWith(remainder, node.path)) {
+        return absent(extensionMismatchReason(node.path), 'extension-mismatch');
+      }
+      remainder = remainder.slice(node.path.length);
+      ref = node.child;
+      continue;
+    }
+    if (remainder.length === 0) {
+      if (node.value.length === 0) {
+        return absent('Branch value slot empty', 'branch-value-empty');
+      }
+      return { found: true, value: node.value, proof, nodeIds, pathNodeIds };
+    }
+    ref = node.children[remainder[0]];
+    remainder = remainder.slice(1);
+  }
+}
+
 export function describeRoot(rootRef: NodeRef): RootDisplay {
   if (rootRef.length === 0) {
     return {
@@ -0,0 +1,49 @@
+import { accountEntry, generateAccounts } from './account';
+import { nibblesToString } from './bytes';
+import { createRawEntry } from './rawKey';
+import { simulateBuild, simulatePut, simulateUpdate } from './simulator';
+import { buildTrieGraph, deleteKey, insertKeyValue } from './trie';
+import { diffTries } from './trieDiff';
+
+describe('structural trie diff', () => {
+  it('reports added, removed and modified keys across restructured paths', () => {
+    const entries = ['do', 'dog', 'doge', 'horse'].map((key) => createRawEntry(key, `${key}-v`, 'utf8'));
+    const built = simulateBuild(entries);
+    const db = built.db.clone();
+
+    let rootRef = built.rootRef;
+    const extra = createRawEntry('dot', 'new', 'utf8');
+    rootRef = insertKeyValue(rootRef, extra.keyNibbles, extra.value, { db }).rootRef;
+    rootRef = deleteKey(rootRef, entries[3].keyNibbles, { db }).rootRef;
+    const changed = createRawEntry('dog', 'puppy', 'utf8');
+    rootRef = insertKeyValue(rootRef, changed.keyNibbles, changed.value, { db }).rootRef;
+
+    const diff = diffTries(built.rootRef, rootRef, db);
+    expect(diff.added.map((change) => nibblesToString(change.key))).toEqual([nibblesToString(extra.keyNibbles)]);
+    expect(diff.removed.map((change) => nibblesToString(change.key))).toEqual([nibblesToString(entries[3].keyNibbles)]);
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].after).toEqual(changed.value);
+    expect(diff.modified[0].before).toEqual(entries[1].value);
+
+    const empty = diffTries(rootRef, rootRef, db);
+    expect(empty.added.length + empty.removed.length + empty.modified.length).toBe(0);
+    expect(empty.nodesOnlyInA).toEqual([]);
+  });
+
+  it('skips shared subtrees and matches the nodes unique to each graph', () => {
+    const accounts = generateAccounts(12, 24);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const updated = simulateUpdate(built.rootRef, built.db, accounts[5], 777n, false);
+    const put = simulatePut(updated.rootRef, updated.db, createRawEntry('0x01', '0x02', 'hex'), false);
+
+    const diff = diffTries(built.rootRef, put.rootRef, put.db);
+    expect(diff.modified.map((change) => nibblesToString(change.key))).toEqual([nibblesToString(accounts[5].keyNibbles)]);
+    expect(diff.added).toHaveLength(1);
+    expect(diff.skippedSubtrees).toBeGreaterThan(0);
+
+    const before = new Set(buildTrieGraph(built.rootRef, put.db).nodes.map((node) => node.id));
+    const after = new Set(buildTrieGraph(put.rootRef, put.db).nodes.map((node) => node.id));
+    expect(new Set(diff.nodesOnlyInA)).toEqual(new Set([...before].filter((id) => !after.has(id))));
+    expect(new Set(diff.nodesOnlyInB)).toEqual(new Set([...after].filter((id) => !before.has(id))));
+  });
+});
@@ -0,0 +1,107 @@
+import { equalBytes, EMPTY_BYTES } from './bytes';
+import { resolveNode } from './trie';
+import type { ExtensionNode, LeafNode, NodeRef, TrieNode } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+export interface KeyChange {
+  key: number[];
+  before?: Uint8Array;
+  after?: Uint8Array;
+}
+
+export interface TrieDiff {
+  added: KeyChange[];
+  removed: KeyChange[];
+  modified: KeyChange[];
+  nodesOnlyInA: string[];
+  nodesOnlyInB: string[];
+  skippedSubtrees: number;
+}
+
+type Position = { kind: 'ref'; ref: NodeRef } | { kind: 'partial'; node: ExtensionNode | LeafNode; offset: number };
+
+interface Expanded {
+  value: Uint8Array;
+  children: (Position | undefined)[];
+}
+
+interface DiffState {
+  db: InMemoryKvStore;
+  nodesA: Set<string>;
+  nodesB: Set<string>;
+  diff: TrieDiff;
+}
+
+function expand(position: Position | undefined, prefix: number[], nodes: Set<string>, db: InMemoryKvStore): Expanded {
+  const children: (Position | undefined)[] = Array.from({ length: 16 }, () => undefined);
+  if (!position || (position.kind === 'ref' && position.ref.length === 0)) {
+    return { value: EMPTY_BYTES, children };
+  }
+
+  let node: TrieNode;
+  let offset = 0;
+  if (position.kind === 'ref') {
+    const resolved = resolveNode(position.ref, prefix.length, [], { db });
+    nodes.add(resolved.id);
+    node = resolved.node;
+  } else {
+    node = position.node;
+    offset = position.offset;
+  }
+
+  if (node.type === 'branch') {
+    node.children.forEach((child, index) => {
+      if (child.length > 0) {
+        children[index] = { kind: 'ref', ref: child };
+      }
+    });
+    return { value: node.value, children };
+  }
+  if (offset === node.path.length) {
+    return { value: node.type === 'leaf' ? node.value : EMPTY_BYTES, children };
+  }
+  const nibble = node.path[offset];
+  children[nibble] =
+    node.type === 'extension' && offset + 1 === node.path.length
+      ? { kind: 'ref', ref: node.child }
+      : { kind: 'partial', node, offset: offset + 1 };
+  return { value: EMPTY_BYTES, children };
+}
+
+function diffAt(a: Position | undefined, b: Position | undefined, prefix: number[], state: DiffState): void {
+  if (a?.kind === 'ref' && b?.kind === 'ref' && equalBytes(a.ref, b.ref)) {
+    if (a.ref.length > 0) {
+      state.diff.skippedSubtrees += 1;
+    }
+    return;
+  }
+
+  const left = expand(a, prefix, state.nodesA, state.db);
+  const right = expand(b, prefix, state.nodesB, state.db);
+  if (left.value.length > 0 && right.value.length === 0) {
+    state.diff.removed.push({ key: prefix, before: left.value });
+  } else if (left.value.length === 0 && right.value.length > 0) {
+    state.diff.added.push({ key: prefix, after: right.value });
+  } else if (left.value.length > 0 && !equalBytes(left.value, right.value)) {
+    state.diff.modified.push({ key: prefix, before: left.value, after: right.value });
+  }
+
+  for (let i = 0; i < 16; i += 1) {
+    if (left.children[i] || right.children[i]) {
+      diffAt(left.children[i], right.children[i], [...prefix, i], state);
+    }
+  }
+}
+
+export function diffTries(rootA: NodeRef, rootB: NodeRef, db: InMemoryKvStore): TrieDiff {
+  const state: DiffState = {
+    db,
+    nodesA: new Set(),
+    nodesB: new Set(),
+    diff: { added: [], removed: [], modified: [], nodesOnlyInA: [], nodesOnlyInB: [], skippedSubtrees: 0 },
+  };
+  diffAt({ kind: 'ref', ref: rootA }, { kind: 'ref', ref: rootB }, [], state);
+  state.diff.nodesOnlyInA = [...state.nodesA].filter((id) => !state.nodesB.has(id));
+  state.diff.nodesOnlyInB = [...state.nodesB].filter((id) => !state.nodesA.has(id));
+  return state.diff;
+}
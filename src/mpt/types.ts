@@ -1,6 +1,16 @@
 export type NodeType = 'branch' | 'extension' | 'leaf';
 export type NodeRef = Uint8Array;
 export type RefKind = 'empty' | 'embedded' | 'hash-ref';
+export type DivergenceKind = 'missing-child' | 'leaf-mismatch' | 'extension-mismatch' | 'branch-value-empty';
+export type KeyMode = 'secure' | 'raw' | 'transactions' | 'receipts';
+
+export interface KeyValueEntry {
+  id: string;
+  keyLabel: string;
+  keyNibbles: number[];
+  value: Uint8Array;
+  valueLabel: string;
+}
 
 export interface BranchNode {
   type: 'branch';
@@ -42,7 +52,7 @@ export interface NodeInspection {
 }
 
 export interface TraceEvent {
-  kind: 'visit' | 'decision' | 'finalize' | 'result' | 'db-get' | 'db-put';
+  kind: 'visit' | 'decision' | 'finalize' | 'result' | 'db-get' | 'db-put' | 'db-delete';
   message: string;
   consumed: number;
   keyRemainder: number[];
@@ -50,7 +60,7 @@ export interface TraceEvent {
   activeNode?: NodeInspection;
   changedNodeId?: string;
   dbKeyHex?: string;
-  dbAction?: 'GET' | 'PUT';
+  dbAction?: 'GET' | 'PUT' | 'DELETE';
   cacheHit?: boolean;
 }
 
@@ -0,0 +1,40 @@
+import { accountEntry, generateAccounts } from './account';
+import { bytesToHex, equalBytes } from './bytes';
+import { simulateBuild, simulateWitness } from './simulator';
+import { applyWitnessOp, collectWitness, witnessBatch, witnessStore } from './witness';
+
+describe('block witness', () => {
+  const entries = generateAccounts(5, 24).map(accountEntry);
+  const built = simulateBuild(entries);
+
+  it('replays a batch of reads and writes from the witness alone', () => {
+    const ops = witnessBatch(entries, 8);
+    const result = simulateWitness(built.rootRef, built.db.clone(), ops);
+
+    expect(result.matches).toBe(true);
+    expect(equalBytes(result.statelessRootRef, result.witness.postRootRef)).toBe(true);
+    expect(bytesToHex(result.statelessRootRef)).not.toBe(bytesToHex(built.rootRef));
+    expect(result.steps.filter((step) => step.title === 'REPLAY START')).toHaveLength(8);
+    expect(result.steps.at(-1)?.log).toMatch(/matches/);
+  });
+
+  it('deduplicates shared nodes and reports per-operation shares', () => {
+    const witness = collectWitness(built.rootRef, built.db, witnessBatch(entries, 8));
+    const rootHex = bytesToHex(built.rootRef);
+
+    expect(witness.entries.filter((entry) => entry.keyHex === rootHex)).toHaveLength(1);
+    expect(witness.ops.every((op) => op.touchedNodes >= op.newNodes)).toBe(true);
+    expect(witness.ops[1].touchedNodes).toBeGreaterThan(witness.ops[1].newNodes);
+    expect(witness.nodeCount).toBe(witness.ops.reduce((sum, op) => sum + op.newNodes, 0));
+    expect(witness.bytes).toBeLessThan(witness.naiveBytes);
+  });
+
+  it('fails the replay when a witness node is missing', () => {
+    const ops = witnessBatch(entries, 2);
+    const witness = collectWitness(built.rootRef, built.db, ops);
+    const store = witnessStore(witness);
+    store.delete(witness.entries[1].keyHex);
+
+    expect(() => applyWitnessOp(built.rootRef, ops[0], { db: store })).toThrow(/Missing node/);
+  });
+});
@@ -0,0 +1,113 @@
+import { decodeAccountValue, encodeAccountValue } from './account';
+import { concatBytes, hexToBytes } from './bytes';
+import { decodeTrieNode } from './nodeCodec';
+import { insertKeyValue, lookupKey, type TrieOperationOptions } from './trie';
+import type { KeyValueEntry } from './types';
+import { InMemoryKvStore } from '../store/kv';
+
+export type WitnessOpKind = 'lookup' | 'update';
+
+export interface WitnessOp {
+  kind: WitnessOpKind;
+  entry: KeyValueEntry;
+}
+
+export interface WitnessOpStats {
+  kind: WitnessOpKind;
+  keyLabel: string;
+  touchedNodes: number;
+  touchedBytes: number;
+  newNodes: number;
+  newBytes: number;
+}
+
+export interface BlockWitness {
+  entries: { keyHex: string; valueHex: string }[];
+  nodeCount: number;
+  bytes: number;
+  naiveBytes: number;
+  ops: WitnessOpStats[];
+  postRootRef: Uint8Array;
+}
+
+function rowBytes(valueHex: string): number {
+  return (valueHex.length - 2) / 2;
+}
+
+function bumpValue(value: Uint8Array): Uint8Array {
+  try {
+    const account = decodeAccountValue(value);
+    return encodeAccountValue(account.nonce, account.balance + 1n, hexToBytes(account.storageRootHex), hexToBytes(account.codeHashHex));
+  } catch {
+    return concatBytes(value, new Uint8Array([0x01]));
+  }
+}
+
+export function witnessBatch(entries: KeyValueEntry[], size: number): WitnessOp[] {
+  if (entries.length === 0) {
+    return [];
+  }
+  const stride = Math.max(1, Math.floor(entries.length / size));
+  return Array.from({ length: size }, (_, index) => {
+    const entry = entries[(index * stride) % entries.length];
+    return index % 2 === 0
+      ? { kind: 'lookup' as const, entry }
+      : { kind: 'update' as const, entry: { ...entry, value: bumpValue(entry.value), valueLabel: `${entry.valueLabel} (bumped)` } };
+  });
+}
+
+export function applyWitnessOp(rootRef: Uint8Array, op: WitnessOp, options: TrieOperationOptions): Uint8Array {
+  if (op.kind === 'lookup') {
+    lookupKey(rootRef, op.entry.keyNibbles, options);
+    return rootRef;
+  }
+  return insertKeyValue(rootRef, op.entry.keyNibbles, op.entry.value, options).rootRef;
+}
+
+export function collectWitness(rootRef: Uint8Array, db: InMemoryKvStore, ops: WitnessOp[]): BlockWitness {
+  const nodes = new Map<string, string>();
+  let touched = new Set<string>();
+  const options: TrieOperationOptions = {
+    db: db.clone(),
+    emitDbGetEvents: true,
+    trace: (event) => {
+      if (event.kind === 'db-get' && event.dbKeyHex && db.get(event.dbKeyHex)) {
+        touched.add(event.dbKeyHex);
+      }
+    },
+  };
+
+  let current = rootRef;
+  const stats = ops.map((op): WitnessOpStats => {
+    touched = new Set();
+    current = applyWitnessOp(current, op, options);
+    const fresh = [...touched].filter((keyHex) => !nodes.has(keyHex));
+    fresh.forEach((keyHex) => nodes.set(keyHex, db.get(keyHex)!));
+    return {
+      kind: op.kind,
+      keyLabel: op.entry.keyLabel,
+      touchedNodes: touched.size,
+      touchedBytes: [...touched].reduce((sum, keyHex) => sum + rowBytes(db.get(keyHex)!), 0),
+      newNodes: fresh.length,
+      newBytes: fresh.reduce((sum, keyHex) => sum + rowBytes(nodes.get(keyHex)!), 0),
+    };
+  });
+
+  const entries = [...nodes].map(([keyHex, valueHex]) => ({ keyHex, valueHex }));
+  return {
+    entries,
+    nodeCount: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + rowBytes(entry.valueHex), 0),
+    naiveBytes: stats.reduce((sum, op) => sum + op.touchedBytes, 0),
+    ops: stats,
+    postRootRef: current,
+  };
+}
+
+export function witnessStore(witness: BlockWitness): InMemoryKvStore {
+  const store = new InMemoryKvStore();
+  for (const entry of witness.entries) {
+    store.put(entry.keyHex, entry.valueHex, decodeTrieNode(hexToBytes(entry.valueHex)).type);
+  }
+  return store;
+}
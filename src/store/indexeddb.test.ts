@@ -0,0 +1,95 @@
+import 'fake-indexeddb/auto';
+import { accountEntry, generateAccounts } from '../mpt/account';
+import { deleteFromKvStore, insertIntoKvStore, lookupInKvStore } from '../mpt/asyncTrie';
+import { bytesToHex, equalBytes } from '../mpt/bytes';
+import { simulateBuild, simulateLookup } from '../mpt/simulator';
+import { deleteKey, insertKeyValue } from '../mpt/trie';
+import { IndexedDbKvStore, clearIndexedDb, loadEntriesFromIndexedDb, persistEntriesToIndexedDb } from './indexeddb';
+import { diffKvEntries, type DbEntry } from './kv';
+
+async function stored(store: IndexedDbKvStore): Promise<DbEntry[]> {
+  const entries: DbEntry[] = [];
+  for await (const entry of store.iterate()) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe('IndexedDB KV store', () => {
+  const accounts = generateAccounts(21, 16).map(accountEntry);
+  const built = simulateBuild(accounts.slice(0, 12));
+  let store: IndexedDbKvStore;
+
+  beforeEach(async () => {
+    await clearIndexedDb();
+    store = new IndexedDbKvStore();
+    await store.batch(diffKvEntries([], built.db.entries()));
+  });
+
+  afterEach(() => store.close());
+
+  it('serves lookups with one GET per hashed node on the path', async () => {
+    const run = await lookupInKvStore(built.rootRef, accounts[4].keyNibbles, store);
+
+    expect(run.result.found).toBe(true);
+    expect(equalBytes(run.result.value!, accounts[4].value)).toBe(true);
+    expect(run.gets).toBe(store.gets);
+    expect(run.gets).toBe(simulateLookup(built.rootRef, built.db, accounts[4], false).trieGets);
+    expect(run.writes).toEqual([]);
+  });
+
+  it('writes only the new nodes of an insert or delete and matches the in-memory root', async () => {
+    const before = (await stored(store)).length;
+    const inserted = await insertIntoKvStore(built.rootRef, accounts[13].keyNibbles, accounts[13].value, store);
+    const memoryDb = built.db.clone();
+    const expected = insertKeyValue(built.rootRef, accounts[13].keyNibbles, accounts[13].value, { db: memoryDb });
+
+    expect(bytesToHex(inserted.result.rootRef)).toBe(bytesToHex(expected.rootRef));
+    expect(inserted.gets).toBe(simulateLookup(built.rootRef, built.db, accounts[13], false).trieGets);
+    expect((await stored(store)).length).toBe(before + inserted.writes.length);
+    expect(inserted.writes.length).toBe(memoryDb.entries().length - built.db.entries().length);
+    const refCounts = (entries: DbEntry[]) => Object.fromEntries(entries.map((entry) => [entry.keyHex, entry.refCount]));
+    expect(refCounts(await stored(store))).toEqual(refCounts(memoryDb.entries()));
+
+    const removed = await deleteFromKvStore(inserted.result.rootRef, accounts[13].keyNibbles, store);
+    expect(removed.result.deleted).toBe(true);
+    expect(bytesToHex(removed.result.rootRef)).toBe(bytesToHex(deleteKey(expected.rootRef, accounts[13].keyNibbles, { db: memoryDb }).rootRef));
+    expect((await lookupInKvStore(removed.result.rootRef, accounts[13].keyNibbles, store)).result.found).toBe(false);
+  });
+
+  it('loads the sibling a delete collapses into', async () => {
+    let memoryRoot = built.rootRef;
+    let storeRoot = built.rootRef;
+    const memoryDb = built.db.clone();
+    for (const entry of accounts.slice(0, 12)) {
+      memoryRoot = deleteKey(memoryRoot, entry.keyNibbles, { db: memoryDb }).rootRef;
+      storeRoot = (await deleteFromKvStore(storeRoot, entry.keyNibbles, store)).result.rootRef;
+      expect(bytesToHex(storeRoot)).toBe(bytesToHex(memoryRoot));
+    }
+  });
+
+  it('persists app state incrementally', async () => {
+    const next = built.db.clone();
+    insertKeyValue(built.rootRef, accounts[14].keyNibbles, accounts[14].value, { db: next });
+    const changed = diffKvEntries(built.db.entries(), next.entries()).length;
+
+    expect(changed).toBeLessThan(next.entries().length);
+    const writes = store.writes;
+    expect(await persistEntriesToIndexedDb(store, next.entries(), built.db.entries())).toBe(changed);
+    expect(store.writes - writes).toBe(changed);
+    expect((await loadEntriesFromIndexedDb()).map((entry) => entry.keyHex).sort()).toEqual(
+      next
+        .entries()
+        .map((entry) => entry.keyHex)
+        .sort(),
+    );
+    expect(await persistEntriesToIndexedDb(store, next.entries(), next.entries())).toBe(0);
+    expect(await persistEntriesToIndexedDb(store, built.db.entries(), next.entries())).toBe(changed);
+    expect((await stored(store)).map((entry) => entry.keyHex).sort()).toEqual(
+      built.db
+        .entries()
+        .map((entry) => entry.keyHex)
+        .sort(),
+    );
+  });
+});
@@ -1,8 +1,11 @@
-import type { DbEntry } from './kv';
+import { diffKvEntries, type DbEntry, type KvBatchOp, type KvStore } from './kv';
+import type { NodeType } from '../mpt/types';
+import type { RootHistoryEntry } from './rootHistory';
 
 const DB_NAME = 'mpt-educator';
 const STORE_NAME = 'nodes';
-const VERSION = 1;
+const ROOTS_STORE_NAME = 'roots';
+const VERSION = 2;
 
 export function indexedDbAvailable(): boolean {
   return typeof indexedDB !== 'undefined';
@@ -16,6 +19,9 @@ function openDb(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'keyHex' });
       }
+      if (!db.objectStoreNames.contains(ROOTS_STORE_NAME)) {
+        db.createObjectStore(ROOTS_STORE_NAME, { keyPath: 'id' });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error ?? new Error('IndexedDB open failed'));
@@ -30,19 +36,114 @@ function transactionComplete(tx: IDBTransaction): Promise<void> {
   });
 }
 
-export async function persistEntriesToIndexedDb(entries: DbEntry[]): Promise<void> {
-  if (!indexedDbAvailable()) {
-    return;
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function applyBatch(store: IDBObjectStore, ops: KvBatchOp[]): void {
+  for (const op of ops) {
+    if (op.type === 'put') {
+      store.put(op.entry);
+    } else {
+      store.delete(op.keyHex);
+    }
   }
-  const db = await openDb();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  const store = tx.objectStore(STORE_NAME);
-  store.clear();
-  for (const entry of entries) {
-    store.put(entry);
+}
+
+export class IndexedDbKvStore implements KvStore {
+  gets = 0;
+  writes = 0;
+  private db?: Promise<IDBDatabase>;
+
+  private async transaction(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; store: IDBObjectStore }> {
+    this.db ??= openDb();
+    const tx = (await this.db).transaction(STORE_NAME, mode);
+    return { tx, store: tx.objectStore(STORE_NAME) };
+  }
+
+  async get(keyHex: string): Promise<string | undefined> {
+    const { store } = await this.transaction('readonly');
+    this.gets += 1;
+    const entry = (await requestResult(store.get(keyHex))) as DbEntry | undefined;
+    return entry?.valueHex;
+  }
+
+  async put(keyHex: string, valueHex: string, nodeType: NodeType | 'unknown' = 'unknown'): Promise<boolean> {
+    const { tx, store } = await this.transaction('readwrite');
+    const existing = store.getKey(keyHex);
+    let isNew = false;
+    existing.onsuccess = () => {
+      if (existing.result === undefined) {
+        isNew = true;
+        this.writes += 1;
+        store.put({ keyHex, valueHex, valueSize: (valueHex.length - 2) / 2, nodeType, insertedAt: Date.now(), refCount: 0 } satisfies DbEntry);
+      }
+    };
+    await transactionComplete(tx);
+    return isNew;
+  }
+
+  async delete(keyHex: string): Promise<boolean> {
+    const { tx, store } = await this.transaction('readwrite');
+    const existing = store.getKey(keyHex);
+    let existed = false;
+    existing.onsuccess = () => {
+      if (existing.result !== undefined) {
+        existed = true;
+        this.writes += 1;
+        store.delete(keyHex);
+      }
+    };
+    await transactionComplete(tx);
+    return existed;
+  }
+
+  async addReference(keyHex: string, delta: number): Promise<number | undefined> {
+    const { tx, store } = await this.transaction('readwrite');
+    const existing = store.get(keyHex);
+    let refCount: number | undefined;
+    existing.onsuccess = () => {
+      const entry = existing.result as DbEntry | undefined;
+      if (entry) {
+        refCount = Math.max(0, entry.refCount + delta);
+        store.put({ ...entry, refCount } satisfies DbEntry);
+      }
+    };
+    await transactionComplete(tx);
+    return refCount;
+  }
+
+  async batch(ops: KvBatchOp[]): Promise<void> {
+    if (ops.length === 0) {
+      return;
+    }
+    const { tx, store } = await this.transaction('readwrite');
+    this.writes += ops.length;
+    applyBatch(store, ops);
+    await transactionComplete(tx);
+  }
+
+  async *iterate(): AsyncGenerator<DbEntry> {
+    const { store } = await this.transaction('readonly');
+    const entries = (await requestResult(store.getAll())) as DbEntry[];
+    yield* entries.sort((a, b) => a.insertedAt - b.insertedAt);
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      (await this.db).close();
+      this.db = undefined;
+    }
   }
-  await transactionComplete(tx);
-  db.close();
+}
+
+export async function persistEntriesToIndexedDb(store: IndexedDbKvStore, entries: DbEntry[], previous: DbEntry[]): Promise<number> {
+  const ops = diffKvEntries(previous, entries);
+  await store.batch(ops);
+  return ops.length;
 }
 
 export async function loadEntriesFromIndexedDb(): Promise<DbEntry[]> {
@@ -62,13 +163,45 @@ export async function loadEntriesFromIndexedDb(): Promise<DbEntry[]> {
   return result.sort((a, b) => a.insertedAt - b.insertedAt);
 }
 
+export async function persistRootHistoryToIndexedDb(history: RootHistoryEntry[]): Promise<void> {
+  if (!indexedDbAvailable()) {
+    return;
+  }
+  const db = await openDb();
+  const tx = db.transaction(ROOTS_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(ROOTS_STORE_NAME);
+  store.clear();
+  for (const entry of history) {
+    store.put(entry);
+  }
+  await transactionComplete(tx);
+  db.close();
+}
+
+export async function loadRootHistoryFromIndexedDb(): Promise<RootHistoryEntry[]> {
+  if (!indexedDbAvailable()) {
+    return [];
+  }
+  const db = await openDb();
+  const tx = db.transaction(ROOTS_STORE_NAME, 'readonly');
+  const request = tx.objectStore(ROOTS_STORE_NAME).getAll();
+  const result = await new Promise<RootHistoryEntry[]>((resolve, reject) => {
+    request.onsuccess = () => resolve((request.result as RootHistoryEntry[]) ?? []);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB read failed'));
+  });
+  await transactionComplete(tx);
+  db.close();
+  return result.sort((a, b) => a.id - b.id);
+}
+
 export async function clearIndexedDb(): Promise<void> {
   if (!indexedDbAvailable()) {
     return;
   }
   const db = await openDb();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const tx = db.transaction([STORE_NAME, ROOTS_STORE_NAME], 'readwrite');
   tx.objectStore(STORE_NAME).clear();
+  tx.objectStore(ROOTS_STORE_NAME).clear();
   await transactionComplete(tx);
   db.close();
 }
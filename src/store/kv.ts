@@ -6,6 +6,31 @@ export interface DbEntry {
   valueSize: number;
   nodeType: NodeType | 'unknown';
   insertedAt: number;
+  refCount: number;
+}
+
+export type KvBatchOp = { type: 'put'; entry: DbEntry } | { type: 'delete'; keyHex: string };
+
+export interface KvStore {
+  get(keyHex: string): string | undefined | Promise<string | undefined>;
+  put(keyHex: string, valueHex: string, nodeType?: NodeType | 'unknown'): boolean | Promise<boolean>;
+  delete(keyHex: string): boolean | Promise<boolean>;
+  addReference(keyHex: string, delta: number): number | undefined | Promise<number | undefined>;
+  batch(ops: KvBatchOp[]): void | Promise<void>;
+  iterate(): Iterable<DbEntry> | AsyncIterable<DbEntry>;
+}
+
+export function diffKvEntries(previous: DbEntry[], next: DbEntry[]): KvBatchOp[] {
+  const before = new Map(previous.map((entry) => [entry.keyHex, entry]));
+  const after = new Set(next.map((entry) => entry.keyHex));
+  const puts: KvBatchOp[] = next
+    .filter((entry) => {
+      const old = before.get(entry.keyHex);
+      return !old || old.valueHex !== entry.valueHex || old.refCount !== entry.refCount || old.nodeType !== entry.nodeType;
+    })
+    .map((entry) => ({ type: 'put', entry }));
+  const deletes: KvBatchOp[] = previous.filter((entry) => !after.has(entry.keyHex)).map((entry) => ({ type: 'delete', keyHex: entry.keyHex }));
+  return [...puts, ...deletes];
 }
 
 function normalizeHex(hex: string): string {
@@ -18,10 +43,11 @@ function bytesSizeFromHex(hex: string): number {
   return raw.length / 2;
 }
 
-export class InMemoryKvStore {
+export class InMemoryKvStore implements KvStore {
   private rows = new Map<string, DbEntry>();
   private insertionOrder: string[] = [];
-  private clock = 0;
+
+  constructor(private clock = 0) {}
 
   static fromEntries(entries: DbEntry[]): InMemoryKvStore {
     const store = new InMemoryKvStore();
@@ -33,6 +59,7 @@ export class InMemoryKvStore {
         valueSize: entry.valueSize,
         nodeType: entry.nodeType,
         insertedAt: entry.insertedAt,
+        refCount: entry.refCount ?? 0,
       });
       store.insertionOrder.push(normalizedKey);
       store.clock = Math.max(store.clock, entry.insertedAt + 1);
@@ -44,6 +71,10 @@ export class InMemoryKvStore {
     return InMemoryKvStore.fromEntries(this.entries());
   }
 
+  insertionClock(): number {
+    return this.clock;
+  }
+
   clear(): void {
     this.rows.clear();
     this.insertionOrder = [];
@@ -54,7 +85,12 @@ export class InMemoryKvStore {
     return this.rows.get(normalizeHex(keyHex))?.valueHex;
   }
 
-  put(keyHex: string, valueHex: string, nodeType: NodeType | 'unknown' = 'unknown'): { isNew: boolean; entry: DbEntry } {
+  entry(keyHex: string): DbEntry | undefined {
+    const existing = this.rows.get(normalizeHex(keyHex));
+    return existing && { ...existing };
+  }
+
+  put(keyHex: string, valueHex: string, nodeType: NodeType | 'unknown' = 'unknown'): boolean {
     const key = normalizeHex(keyHex);
     const value = normalizeHex(valueHex);
     const existing = this.rows.get(key);
@@ -62,7 +98,7 @@ export class InMemoryKvStore {
       if (existing.nodeType === 'unknown' && nodeType !== 'unknown') {
         existing.nodeType = nodeType;
       }
-      return { isNew: false, entry: { ...existing } };
+      return false;
     }
 
     const entry: DbEntry = {
@@ -71,11 +107,71 @@ export class InMemoryKvStore {
       valueSize: bytesSizeFromHex(value),
       nodeType,
       insertedAt: this.clock,
+      refCount: 0,
     };
     this.clock += 1;
     this.rows.set(key, entry);
     this.insertionOrder.push(key);
-    return { isNew: true, entry: { ...entry } };
+    return true;
+  }
+
+  overwrite(keyHex: string, valueHex: string): DbEntry | undefined {
+    const existing = this.rows.get(normalizeHex(keyHex));
+    if (!existing) {
+      return undefined;
+    }
+    existing.valueHex = normalizeHex(valueHex);
+    existing.valueSize = bytesSizeFromHex(existing.valueHex);
+    return { ...existing };
+  }
+
+  swap(keyA: string, keyB: string): boolean {
+    const a = this.rows.get(normalizeHex(keyA));
+    const b = this.rows.get(normalizeHex(keyB));
+    if (!a || !b) {
+      return false;
+    }
+    [a.valueHex, b.valueHex] = [b.valueHex, a.valueHex];
+    [a.valueSize, b.valueSize] = [b.valueSize, a.valueSize];
+    [a.nodeType, b.nodeType] = [b.nodeType, a.nodeType];
+    return true;
+  }
+
+  delete(keyHex: string): boolean {
+    const key = normalizeHex(keyHex);
+    if (!this.rows.delete(key)) {
+      return false;
+    }
+    this.insertionOrder = this.insertionOrder.filter((item) => item !== key);
+    return true;
+  }
+
+  addReference(keyHex: string, delta: number): number | undefined {
+    const existing = this.rows.get(normalizeHex(keyHex));
+    if (!existing) {
+      return undefined;
+    }
+    existing.refCount = Math.max(0, existing.refCount + delta);
+    return existing.refCount;
+  }
+
+  batch(ops: KvBatchOp[]): void {
+    for (const op of ops) {
+      if (op.type === 'delete') {
+        this.delete(op.keyHex);
+        continue;
+      }
+      const key = normalizeHex(op.entry.keyHex);
+      if (!this.rows.has(key)) {
+        this.insertionOrder.push(key);
+      }
+      this.rows.set(key, { ...op.entry, keyHex: key, valueHex: normalizeHex(op.entry.valueHex) });
+      this.clock = Math.max(this.clock, op.entry.insertedAt + 1);
+    }
+  }
+
+  *iterate(): Generator<DbEntry> {
+    yield* this.entries();
   }
 
   entries(): DbEntry[] {
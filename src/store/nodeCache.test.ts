@@ -0,0 +1,38 @@
+import { accountEntry, generateAccounts } from '../mpt/account';
+import { simulateBuild, simulateLookup, simulateUpdate } from '../mpt/simulator';
+import { NodeCache } from './nodeCache';
+
+describe('node cache', () => {
+  it('evicts the least recently used node and keeps running counters', () => {
+    const cache = new NodeCache(2);
+    cache.set('0xaa', new Uint8Array([1]));
+    cache.set('0xbb', new Uint8Array([2, 2]));
+    expect(cache.get('0xaa')).toEqual(new Uint8Array([1]));
+    cache.set('0xcc', new Uint8Array([3]));
+
+    expect(cache.get('0xbb')).toBeUndefined();
+    expect(cache.entries().map((entry) => entry.keyHex)).toEqual(['0xcc', '0xaa']);
+    expect(cache.stats()).toEqual({ capacity: 2, size: 2, bytes: 2, hits: 1, misses: 1, evictions: 1 });
+
+    cache.resize(1);
+    expect(cache.entries()).toEqual([{ keyHex: '0xcc', size: 1, hits: 0 }]);
+    expect(cache.stats().evictions).toBe(2);
+  });
+
+  it('carries hits across operations when shared', () => {
+    const accounts = generateAccounts(11, 24);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const cache = new NodeCache(128);
+
+    const first = simulateLookup(built.rootRef, built.db, accountEntry(accounts[5]), true, 'secure', undefined, cache);
+    const second = simulateLookup(built.rootRef, built.db, accountEntry(accounts[5]), true, 'secure', undefined, cache);
+    expect(first.trieGets).toBeGreaterThan(1);
+    expect(second.trieGets).toBe(0);
+    expect(cache.stats()).toMatchObject({ hits: first.trieGets, misses: first.trieGets, evictions: 0 });
+
+    const updated = simulateUpdate(built.rootRef, built.db, accounts[5], 7n, true, 'immediate', undefined, cache);
+    const after = simulateLookup(updated.rootRef, built.db, accountEntry(accounts[5]), true, 'secure', undefined, cache);
+    expect(after.trieGets).toBe(0);
+    expect(after.found).toBe(true);
+  });
+});
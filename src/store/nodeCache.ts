@@ -0,0 +1,96 @@
+export interface NodeCacheStore {
+  get(keyHex: string): Uint8Array | undefined;
+  set(keyHex: string, rlp: Uint8Array): unknown;
+  delete(keyHex: string): boolean;
+}
+
+export interface NodeCacheStats {
+  capacity: number;
+  size: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface NodeCacheEntry {
+  keyHex: string;
+  size: number;
+  hits: number;
+}
+
+export const NODE_CACHE_CAPACITIES = [8, 32, 128, 512];
+
+export class NodeCache implements NodeCacheStore {
+  private rows = new Map<string, { rlp: Uint8Array; hits: number }>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private capacity: number) {}
+
+  get(keyHex: string): Uint8Array | undefined {
+    const row = this.rows.get(keyHex);
+    if (!row) {
+      this.misses += 1;
+      return undefined;
+    }
+    this.hits += 1;
+    row.hits += 1;
+    this.rows.delete(keyHex);
+    this.rows.set(keyHex, row);
+    return row.rlp;
+  }
+
+  set(keyHex: string, rlp: Uint8Array): void {
+    const hits = this.rows.get(keyHex)?.hits ?? 0;
+    this.rows.delete(keyHex);
+    this.rows.set(keyHex, { rlp, hits });
+    this.evictOverflow();
+  }
+
+  has(keyHex: string): boolean {
+    return this.rows.has(keyHex);
+  }
+
+  delete(keyHex: string): boolean {
+    return this.rows.delete(keyHex);
+  }
+
+  resize(capacity: number): void {
+    this.capacity = capacity;
+    this.evictOverflow();
+  }
+
+  clear(): void {
+    this.rows.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  stats(): NodeCacheStats {
+    return {
+      capacity: this.capacity,
+      size: this.rows.size,
+      bytes: [...this.rows.values()].reduce((sum, row) => sum + row.rlp.length, 0),
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  entries(): NodeCacheEntry[] {
+    return [...this.rows]
+      .reverse()
+      .map(([keyHex, row]) => ({ keyHex, size: row.rlp.length, hits: row.hits }));
+  }
+
+  private evictOverflow(): void {
+    while (this.rows.size > this.capacity) {
+      const oldest = this.rows.keys().next().value as string;
+      this.rows.delete(oldest);
+      this.evictions += 1;
+    }
+  }
+}
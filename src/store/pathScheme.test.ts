@@ -0,0 +1,60 @@
+import { accountEntry, generateAccounts } from '../mpt/account';
+import { bytesToHex } from '../mpt/bytes';
+import { markLiveNodes } from '../mpt/prune';
+import { simulateBuild, simulateUpdate } from '../mpt/simulator';
+import { measureStorageGrowth, pathEntriesForRoot, PathKvStore } from './pathScheme';
+
+describe('path-based storage scheme', () => {
+  it('keys every hashed node of the current root by its nibble path', () => {
+    const built = simulateBuild(generateAccounts(12, 16).map(accountEntry));
+    const entries = pathEntriesForRoot(built.rootRef, built.db);
+    const live = markLiveNodes([built.rootRef], built.db);
+
+    expect(entries[0].pathKey).toBe('');
+    expect(new Set(entries.map((entry) => entry.hashHex))).toEqual(live);
+    expect(new Set(entries.map((entry) => entry.pathKey)).size).toBe(entries.length);
+  });
+
+  it('overwrites in place and rolls back with reverse diffs', () => {
+    const accounts = generateAccounts(21, 16);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const roots = [{ label: 'Build', rootRef: built.rootRef }];
+    let rootRef = built.rootRef;
+    const db = built.db;
+    for (const [index, account] of accounts.slice(0, 4).entries()) {
+      rootRef = simulateUpdate(rootRef, db, account, BigInt(index + 7), false).rootRef;
+      roots.push({ label: `Update ${index}`, rootRef });
+    }
+
+    const store = new PathKvStore();
+    roots.forEach((root) => store.commit(pathEntriesForRoot(root.rootRef, db)));
+    expect(store.entries()).toEqual(pathEntriesForRoot(rootRef, db));
+    store.rollback();
+    store.rollback();
+    expect(store.entries().sort((a, b) => a.pathKey.localeCompare(b.pathKey))).toEqual(
+      pathEntriesForRoot(roots[2].rootRef, db).sort((a, b) => a.pathKey.localeCompare(b.pathKey)),
+    );
+
+    const growth = measureStorageGrowth(roots, db);
+    const [first, last] = [growth[0], growth[growth.length - 1]];
+    expect(last.pathRows).toBe(first.pathRows);
+    expect(last.hashRows).toBeGreaterThan(first.hashRows);
+    expect(last.reverseDiffBytes).toBeGreaterThan(0);
+    expect(last.pathBytes + last.reverseDiffBytes).toBeLessThanOrEqual(last.hashBytes);
+  });
+
+  it('skips rows that no longer decode', () => {
+    const built = simulateBuild(generateAccounts(12, 16).map(accountEntry));
+    const db = built.db.clone();
+    const entries = pathEntriesForRoot(built.rootRef, db);
+    db.overwrite(entries[1].hashHex!, '0x00');
+
+    const tampered = pathEntriesForRoot(built.rootRef, db);
+    expect(tampered.length).toBeGreaterThan(0);
+    expect(tampered.length).toBeLessThan(entries.length);
+    expect(tampered.map((entry) => entry.hashHex)).not.toContain(entries[1].hashHex);
+    expect(measureStorageGrowth([{ label: 'Build', rootRef: built.rootRef }], db)[0].pathRows).toBe(tampered.length);
+    db.overwrite(bytesToHex(built.rootRef), '0x00');
+    expect(pathEntriesForRoot(built.rootRef, db)).toEqual([]);
+  });
+});
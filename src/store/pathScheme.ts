@@ -0,0 +1,173 @@
+import { storageRootOfValue } from '../mpt/account';
+import { bytesToHex, hexToBytes, nibblesToString } from '../mpt/bytes';
+import { decodeTrieNode } from '../mpt/nodeCodec';
+import { markLiveNodes } from '../mpt/prune';
+import type { NodeRef, NodeType, TrieNode } from '../mpt/types';
+import type { InMemoryKvStore } from './kv';
+
+export type KvLayout = 'hash' | 'path' | 'side-by-side';
+
+export interface PathDbEntry {
+  pathKey: string;
+  valueHex: string;
+  valueSize: number;
+  nodeType: NodeType;
+  hashHex?: string;
+}
+
+export interface PathChange {
+  pathKey: string;
+  previous?: PathDbEntry;
+}
+
+export interface ReverseDiff {
+  changes: PathChange[];
+  bytes: number;
+}
+
+export interface StorageGrowthSample {
+  label: string;
+  hashRows: number;
+  hashBytes: number;
+  pathRows: number;
+  pathBytes: number;
+  reverseDiffBytes: number;
+}
+
+export function formatPathKey(pathKey: string): string {
+  const [owner, path] = pathKey.includes(':') ? pathKey.split(':') : ['', pathKey];
+  const local = path || '(root)';
+  return owner ? `${owner.slice(0, 8)}…/${local}` : local;
+}
+
+function collectPathNodes(ref: NodeRef, path: number[], owner: string, db: InMemoryKvStore, out: PathDbEntry[]): void {
+  if (ref.length === 0) {
+    return;
+  }
+  const hashed = ref.length === 32;
+  const valueHex = hashed ? db.get(bytesToHex(ref)) : bytesToHex(ref);
+  if (!valueHex) {
+    return;
+  }
+  const rlp = hexToBytes(valueHex);
+  let node: TrieNode;
+  try {
+    node = decodeTrieNode(rlp);
+  } catch {
+    return;
+  }
+  if (hashed || path.length === 0) {
+    const local = nibblesToString(path);
+    out.push({
+      pathKey: owner ? `${owner}:${local}` : local,
+      valueHex,
+      valueSize: rlp.length,
+      nodeType: node.type,
+      hashHex: hashed ? bytesToHex(ref) : undefined,
+    });
+  }
+
+  const visitValue = (value: Uint8Array, fullPath: number[]) => {
+    const storageRoot = owner ? undefined : storageRootOfValue(value);
+    if (storageRoot) {
+      collectPathNodes(hexToBytes(storageRoot), [], nibblesToString(fullPath), db, out);
+    }
+  };
+  if (node.type === 'branch') {
+    node.children.forEach((child, index) => collectPathNodes(child, [...path, index], owner, db, out));
+    if (node.value.length > 0) {
+      visitValue(node.value, path);
+    }
+  } else if (node.type === 'extension') {
+    collectPathNodes(node.child, [...path, ...node.path], owner, db, out);
+  } else {
+    visitValue(node.value, [...path, ...node.path]);
+  }
+}
+
+export function pathEntriesForRoot(rootRef: NodeRef, db: InMemoryKvStore): PathDbEntry[] {
+  const out: PathDbEntry[] = [];
+  collectPathNodes(rootRef, [], '', db, out);
+  return out;
+}
+
+export class PathKvStore {
+  private rows = new Map<string, PathDbEntry>();
+  private diffs: ReverseDiff[] = [];
+
+  get(pathKey: string): PathDbEntry | undefined {
+    const entry = this.rows.get(pathKey);
+    return entry ? { ...entry } : undefined;
+  }
+
+  entries(): PathDbEntry[] {
+    return [...this.rows.values()].map((entry) => ({ ...entry }));
+  }
+
+  get totalBytes(): number {
+    return [...this.rows.values()].reduce((sum, entry) => sum + entry.valueSize, 0);
+  }
+
+  get reverseDiffs(): ReverseDiff[] {
+    return this.diffs.map((diff) => ({ ...diff, changes: [...diff.changes] }));
+  }
+
+  get reverseDiffBytes(): number {
+    return this.diffs.reduce((sum, diff) => sum + diff.bytes, 0);
+  }
+
+  commit(next: PathDbEntry[]): ReverseDiff {
+    const nextRows = new Map(next.map((entry) => [entry.pathKey, entry]));
+    const changes: PathChange[] = [];
+    for (const [pathKey, entry] of this.rows) {
+      const replacement = nextRows.get(pathKey);
+      if (!replacement || replacement.valueHex !== entry.valueHex) {
+        changes.push({ pathKey, previous: entry });
+      }
+    }
+    for (const pathKey of nextRows.keys()) {
+      if (!this.rows.has(pathKey)) {
+        changes.push({ pathKey });
+      }
+    }
+    const bytes = changes.reduce((sum, change) => sum + (change.previous?.valueSize ?? 0), 0);
+    const diff = { changes, bytes };
+    this.rows = new Map([...nextRows].map(([pathKey, entry]) => [pathKey, { ...entry }]));
+    this.diffs.push(diff);
+    return diff;
+  }
+
+  rollback(): boolean {
+    const diff = this.diffs.pop();
+    if (!diff) {
+      return false;
+    }
+    for (const change of diff.changes) {
+      if (change.previous) {
+        this.rows.set(change.pathKey, change.previous);
+      } else {
+        this.rows.delete(change.pathKey);
+      }
+    }
+    return true;
+  }
+}
+
+export function measureStorageGrowth(roots: { label: string; rootRef: NodeRef }[], db: InMemoryKvStore): StorageGrowthSample[] {
+  const hashRows = new Map<string, number>();
+  const store = new PathKvStore();
+  return roots.map(({ label, rootRef }) => {
+    for (const keyHex of markLiveNodes([rootRef], db)) {
+      hashRows.set(keyHex, (db.get(keyHex)!.length - 2) / 2);
+    }
+    store.commit(pathEntriesForRoot(rootRef, db));
+    return {
+      label,
+      hashRows: hashRows.size,
+      hashBytes: [...hashRows.values()].reduce((sum, size) => sum + size, 0),
+      pathRows: store.entries().length,
+      pathBytes: store.totalBytes,
+      reverseDiffBytes: store.reverseDiffBytes,
+    };
+  });
+}
@@ -0,0 +1,38 @@
+import { accountEntry, generateAccounts } from '../mpt/account';
+import { equalBytes, hexToBytes } from '../mpt/bytes';
+import { verifyProof } from '../mpt/proof';
+import { simulateBuild, simulateUpdate } from '../mpt/simulator';
+import { describeRoot, getProof, lookupKey } from '../mpt/trie';
+import { appendRootHistory, historyRootRef, markPrunedHistory, retainedHistory } from './rootHistory';
+
+describe('root history', () => {
+  it('answers lookups and proofs against every recorded root', () => {
+    const accounts = generateAccounts(8, 8);
+    const built = simulateBuild(accounts.map(accountEntry));
+    let history = appendRootHistory([], built.rootRef, 'insert', 'Build', 1);
+    const updated = simulateUpdate(built.rootRef, built.db, accounts[2], 5n, false);
+    history = appendRootHistory(history, updated.rootRef, 'update', 'Update', 2);
+    history = appendRootHistory(history, updated.rootRef, 'delete', 'No-op', 3);
+
+    expect(history.map((entry) => entry.id)).toEqual([0, 1]);
+    const [before, after] = history.map(historyRootRef);
+    const target = accounts[2].keyNibbles;
+    expect(equalBytes(lookupKey(before, target, { db: updated.db }).value!, accounts[2].accountRlp)).toBe(true);
+    expect(equalBytes(lookupKey(after, target, { db: updated.db }).value!, updated.updatedAccount.accountRlp)).toBe(true);
+
+    const oldProof = getProof(before, target, updated.db).proof;
+    const verified = verifyProof(hexToBytes(describeRoot(before).commitmentHex), target, oldProof);
+    expect(verified.status).toBe('found');
+    expect(equalBytes(verified.value!, accounts[2].accountRlp)).toBe(true);
+  });
+
+  it('marks roots outside the retained window as pruned', () => {
+    let history = appendRootHistory([], new Uint8Array(32).fill(1), 'insert', 'a', 1);
+    history = appendRootHistory(history, new Uint8Array(32).fill(2), 'update', 'b', 2);
+    history = appendRootHistory(history, new Uint8Array(32).fill(3), 'update', 'c', 3);
+
+    history = markPrunedHistory(history, retainedHistory(history, 2));
+    expect(history.map((entry) => entry.pruned)).toEqual([true, false, false]);
+    expect(retainedHistory(history, 4).map((entry) => entry.label)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,44 @@
+import { bytesToHex, hexToBytes } from '../mpt/bytes';
+import type { SimulationMode } from '../mpt/simulator';
+
+export interface RootHistoryEntry {
+  id: number;
+  rootRefHex: string;
+  label: string;
+  op: SimulationMode;
+  createdAt: number;
+  pruned: boolean;
+}
+
+export function appendRootHistory(
+  history: RootHistoryEntry[],
+  rootRef: Uint8Array,
+  op: SimulationMode,
+  label: string,
+  createdAt = Date.now(),
+): RootHistoryEntry[] {
+  const rootRefHex = bytesToHex(rootRef);
+  const latest = history[history.length - 1];
+  if (latest && latest.rootRefHex === rootRefHex) {
+    return history;
+  }
+  const id = latest ? latest.id + 1 : 0;
+  return [...history, { id, rootRefHex, label, op, createdAt, pruned: false }];
+}
+
+export function historyRootRef(entry: RootHistoryEntry): Uint8Array {
+  return hexToBytes(entry.rootRefHex);
+}
+
+export function retainedHistory(history: RootHistoryEntry[], count: number): RootHistoryEntry[] {
+  return history.filter((entry) => !entry.pruned).slice(-count);
+}
+
+export function markPrunedHistory(history: RootHistoryEntry[], retained: RootHistoryEntry[]): RootHistoryEntry[] {
+  const kept = new Set(retained.map((entry) => entry.id));
+  return history.map((entry) => (kept.has(entry.id) || entry.pruned ? entry : { ...entry, pruned: true }));
+}
+
+export function renameHistoryEntry(history: RootHistoryEntry[], id: number, label: string): RootHistoryEntry[] {
+  return history.map((entry) => (entry.id === id ? { ...entry, label } : entry));
+}
@@ -0,0 +1,35 @@
+import { accountEntry, generateAccounts } from '../mpt/account';
+import { equalBytes } from '../mpt/bytes';
+import { simulateBuild, simulateDelete, simulateLookup, simulateStorageWrite, simulateUpdate } from '../mpt/simulator';
+import { checkSnapshot, snapshotKeyHex } from './snapshot';
+
+describe('flat state snapshot', () => {
+  it('stays consistent with the trie across updates, storage writes and deletes', () => {
+    const accounts = generateAccounts(6, 12);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const { snapshot, db } = built;
+    expect(checkSnapshot(snapshot, built.rootRef, db)).toMatchObject({ consistent: true, checked: 12 });
+
+    let rootRef = simulateUpdate(built.rootRef, db, accounts[1], 42n, false, 'immediate', snapshot).rootRef;
+    rootRef = simulateStorageWrite(rootRef, db, accounts[4], 1n, 5n, false, snapshot).rootRef;
+    rootRef = simulateDelete(rootRef, db, accountEntry(accounts[7]), false, snapshot).rootRef;
+
+    expect(checkSnapshot(snapshot, rootRef, db)).toMatchObject({ consistent: true, checked: 11 });
+    const stale = checkSnapshot(snapshot, built.rootRef, db);
+    expect(stale.consistent).toBe(false);
+    expect(stale.missing).toEqual([snapshotKeyHex(accounts[7].keyNibbles)]);
+    expect(stale.mismatched).toHaveLength(2);
+  });
+
+  it('answers a lookup with one GET where the trie walk needs several', () => {
+    const accounts = generateAccounts(3, 24);
+    const built = simulateBuild(accounts.map(accountEntry));
+    const result = simulateLookup(built.rootRef, built.db, accountEntry(accounts[10]), false, 'secure', built.snapshot);
+
+    expect(result.found).toBe(true);
+    expect(result.snapshotRead?.found).toBe(true);
+    expect(equalBytes(result.snapshotRead!.value!, result.value!)).toBe(true);
+    expect(result.snapshotRead!.steps.filter((step) => step.dbAction === 'GET')).toHaveLength(1);
+    expect(result.trieGets).toBeGreaterThan(1);
+  });
+});
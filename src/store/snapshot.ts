@@ -0,0 +1,77 @@
+import { bytesToHex, hexToBytes, nibblesToString } from '../mpt/bytes';
+import { iterateLeaves } from '../mpt/trie';
+import type { NodeRef } from '../mpt/types';
+import type { InMemoryKvStore } from './kv';
+
+export interface SnapshotEntry {
+  keyHex: string;
+  valueHex: string;
+  valueSize: number;
+}
+
+export interface SnapshotCheck {
+  consistent: boolean;
+  checked: number;
+  missing: string[];
+  stale: string[];
+  mismatched: string[];
+}
+
+export function snapshotKeyHex(key: number[]): string {
+  return `0x${nibblesToString(key)}`;
+}
+
+export class StateSnapshot {
+  private rows = new Map<string, SnapshotEntry>();
+
+  static fromTrie(rootRef: NodeRef, db: InMemoryKvStore): StateSnapshot {
+    const snapshot = new StateSnapshot();
+    for (const leaf of iterateLeaves(rootRef, { db })) {
+      snapshot.put(leaf.key, leaf.value);
+    }
+    return snapshot;
+  }
+
+  get size(): number {
+    return this.rows.size;
+  }
+
+  get(key: number[]): Uint8Array | undefined {
+    const entry = this.rows.get(snapshotKeyHex(key));
+    return entry ? hexToBytes(entry.valueHex) : undefined;
+  }
+
+  put(key: number[], value: Uint8Array): void {
+    const keyHex = snapshotKeyHex(key);
+    this.rows.set(keyHex, { keyHex, valueHex: bytesToHex(value), valueSize: value.length });
+  }
+
+  delete(key: number[]): boolean {
+    return this.rows.delete(snapshotKeyHex(key));
+  }
+
+  entries(): SnapshotEntry[] {
+    return [...this.rows.values()].map((entry) => ({ ...entry }));
+  }
+
+  clone(): StateSnapshot {
+    const copy = new StateSnapshot();
+    copy.rows = new Map([...this.rows].map(([keyHex, entry]) => [keyHex, { ...entry }]));
+    return copy;
+  }
+}
+
+export function checkSnapshot(snapshot: StateSnapshot, rootRef: NodeRef, db: InMemoryKvStore): SnapshotCheck {
+  const expected = new Map(StateSnapshot.fromTrie(rootRef, db).entries().map((entry) => [entry.keyHex, entry.valueHex]));
+  const actual = new Map(snapshot.entries().map((entry) => [entry.keyHex, entry.valueHex]));
+  const missing = [...expected.keys()].filter((keyHex) => !actual.has(keyHex));
+  const stale = [...actual.keys()].filter((keyHex) => !expected.has(keyHex));
+  const mismatched = [...expected].filter(([keyHex, valueHex]) => actual.has(keyHex) && actual.get(keyHex) !== valueHex).map(([keyHex]) => keyHex);
+  return {
+    consistent: missing.length === 0 && stale.length === 0 && mismatched.length === 0,
+    checked: expected.size,
+    missing,
+    stale,
+    mismatched,
+  };
+}
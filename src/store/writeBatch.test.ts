@@ -0,0 +1,75 @@
+import { accountEntry, generateAccounts } from '../mpt/account';
+import { bytesToHex } from '../mpt/bytes';
+import { OperationRolledBack, simulateBuild, simulateStorageWrite, simulateUpdate } from '../mpt/simulator';
+import { buildPedagogicalSteps } from '../ui/utils/stepPedagogy';
+import { WriteBatch } from './writeBatch';
+
+describe('write batches', () => {
+  const accounts = generateAccounts(8, 10);
+  const built = simulateBuild(accounts.map(accountEntry));
+
+  it('stages writes and flushes them between BEGIN and COMMIT', () => {
+    const db = built.db.clone();
+    const before = db.entries().length;
+    const result = simulateUpdate(built.rootRef, db, accounts[3], 5n, false);
+    const titles = result.steps.map((step) => step.title);
+    const puts = result.steps.filter((step) => step.dbAction === 'PUT').map((step) => step.id);
+
+    expect(titles.indexOf('BATCH BEGIN')).toBeLessThan(puts[0]);
+    expect(titles.indexOf('BATCH COMMIT')).toBeGreaterThan(puts[puts.length - 1]);
+    expect(result.steps.find((step) => step.title === 'BATCH COMMIT')?.log).toMatch(new RegExp(`Flush ${db.entries().length - before} new rows`));
+    expect(buildPedagogicalSteps(result.steps).find((step) => step.step.title === 'BATCH COMMIT')?.concept).toBe('Write Batch');
+  });
+
+  it('rolls back a storage write whose state trie update fails halfway', () => {
+    const db = built.db.clone();
+    db.delete(bytesToHex(built.rootRef));
+    const before = db.entries();
+
+    const cache = new Map<string, Uint8Array>();
+    let failure: unknown;
+    try {
+      simulateStorageWrite(built.rootRef, db, accounts[6], 1n, 9n, true, undefined, cache);
+    } catch (error) {
+      failure = error;
+    }
+
+    expect(failure).toBeInstanceOf(OperationRolledBack);
+    const { steps, message } = failure as OperationRolledBack;
+    expect(message).toMatch(/Missing node/);
+    expect(steps.map((step) => step.title)).toContain('STORAGE ROOT');
+    expect(steps.at(-1)?.title).toBe('BATCH ROLLBACK');
+    expect(steps.at(-1)?.log).toMatch(/discard [1-9]\d* new rows/);
+    expect(steps.at(-1)?.dbEntries).toEqual(before);
+    expect(db.entries()).toEqual(before);
+    expect([...cache.keys()].filter((keyHex) => db.get(keyHex) === undefined)).toEqual([]);
+  });
+
+  it('keeps staged rows out of the target until commit', () => {
+    const db = built.db.clone();
+    const batch = new WriteBatch(db);
+    batch.put('0x01', '0xc20102', 'leaf');
+    batch.delete(bytesToHex(built.rootRef));
+
+    expect(db.get('0x01')).toBeUndefined();
+    expect(batch.get('0x01')).toBe('0xc20102');
+    expect(batch.get(bytesToHex(built.rootRef))).toBeUndefined();
+    expect(batch.pending()).toHaveLength(2);
+    expect(batch.summary()).toMatchObject({ newRows: 1, deletedRows: 1 });
+    batch.commit();
+    expect(db.get('0x01')).toBe('0xc20102');
+    expect(db.get(bytesToHex(built.rootRef))).toBeUndefined();
+    expect(batch.pending()).toEqual([]);
+  });
+
+  it('drops staged rows on rollback', () => {
+    const db = built.db.clone();
+    const batch = new WriteBatch(db);
+    batch.put('0x01', '0xc20102', 'leaf');
+    batch.addReference(bytesToHex(built.rootRef), 1);
+
+    expect(batch.rollback()).toMatchObject({ newRows: 1, updatedRows: 1 });
+    expect(batch.entries()).toEqual(db.entries());
+    expect(db.entries()).toEqual(built.db.entries());
+  });
+});
@@ -0,0 +1,122 @@
+import { InMemoryKvStore, type DbEntry, type KvBatchOp } from './kv';
+import type { NodeType } from '../mpt/types';
+
+export interface BatchSummary {
+  newRows: number;
+  updatedRows: number;
+  deletedRows: number;
+  bytes: number;
+}
+
+export class WriteBatch extends InMemoryKvStore {
+  private readonly removed = new Set<string>();
+
+  constructor(private readonly target: InMemoryKvStore) {
+    super(target.insertionClock());
+  }
+
+  get(keyHex: string): string | undefined {
+    return this.entry(keyHex)?.valueHex;
+  }
+
+  entry(keyHex: string): DbEntry | undefined {
+    if (this.removed.has(keyHex)) {
+      return undefined;
+    }
+    return super.entry(keyHex) ?? this.target.entry(keyHex);
+  }
+
+  put(keyHex: string, valueHex: string, nodeType: NodeType | 'unknown' = 'unknown'): boolean {
+    const existing = this.entry(keyHex);
+    if (existing) {
+      if (existing.nodeType === 'unknown' && nodeType !== 'unknown') {
+        this.stage({ ...existing, nodeType });
+      }
+      return false;
+    }
+    this.removed.delete(keyHex);
+    return super.put(keyHex, valueHex, nodeType);
+  }
+
+  delete(keyHex: string): boolean {
+    if (!this.entry(keyHex)) {
+      return false;
+    }
+    super.delete(keyHex);
+    this.removed.add(keyHex);
+    return true;
+  }
+
+  addReference(keyHex: string, delta: number): number | undefined {
+    const existing = this.entry(keyHex);
+    if (!existing) {
+      return undefined;
+    }
+    const refCount = Math.max(0, existing.refCount + delta);
+    this.stage({ ...existing, refCount });
+    return refCount;
+  }
+
+  entries(): DbEntry[] {
+    const staged = super.entries();
+    const byKey = new Map(staged.map((entry) => [entry.keyHex, entry]));
+    const kept = this.target
+      .entries()
+      .filter((entry) => !this.removed.has(entry.keyHex))
+      .map((entry) => byKey.get(entry.keyHex) ?? entry);
+    return [...kept, ...staged.filter((entry) => this.target.entry(entry.keyHex) === undefined)];
+  }
+
+  pending(): KvBatchOp[] {
+    return [
+      ...super.entries().map((entry): KvBatchOp => ({ type: 'put', entry })),
+      ...[...this.removed].map((keyHex): KvBatchOp => ({ type: 'delete', keyHex })),
+    ];
+  }
+
+  newKeys(): string[] {
+    return super
+      .entries()
+      .map((entry) => entry.keyHex)
+      .filter((keyHex) => this.target.entry(keyHex) === undefined);
+  }
+
+  summary(ops = this.pending()): BatchSummary {
+    const summary: BatchSummary = { newRows: 0, updatedRows: 0, deletedRows: 0, bytes: 0 };
+    for (const op of ops) {
+      if (op.type === 'delete') {
+        summary.deletedRows += this.target.entry(op.keyHex) ? 1 : 0;
+      } else if (this.target.entry(op.entry.keyHex) === undefined) {
+        summary.newRows += 1;
+        summary.bytes += op.entry.valueSize;
+      } else {
+        summary.updatedRows += 1;
+      }
+    }
+    return summary;
+  }
+
+  commit(): BatchSummary {
+    const ops = this.pending();
+    const summary = this.summary(ops);
+    this.target.batch(ops);
+    this.discard();
+    return summary;
+  }
+
+  rollback(): BatchSummary {
+    const summary = this.summary();
+    this.discard();
+    return summary;
+  }
+
+  private stage(entry: DbEntry): void {
+    this.removed.delete(entry.keyHex);
+    super.batch([{ type: 'put', entry }]);
+  }
+
+  private discard(): void {
+    super.entries().forEach((entry) => super.delete(entry.keyHex));
+    this.removed.clear();
+  }
+}
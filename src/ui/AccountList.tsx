@@ -1,23 +1,21 @@
 import { shortHex } from '../mpt/bytes';
-import type { GeneratedAccount } from '../mpt/account';
+import type { KeyValueEntry } from '../mpt/types';
 
 interface AccountListProps {
-  accounts: GeneratedAccount[];
-  selectedAddress: string;
+  title: string;
+  entries: KeyValueEntry[];
+  selectedId: string;
 }
 
-export function AccountList({ accounts, selectedAddress }: AccountListProps) {
+export function AccountList({ title, entries, selectedId }: AccountListProps) {
   return (
     <section className="account-list">
-      <h2>Generated accounts</h2>
+      <h2>{title}</h2>
       <div className="account-list-grid">
-        {accounts.map((account) => (
-          <article
-            key={account.address}
-            className={`account-card ${account.address === selectedAddress ? 'account-card-active' : ''}`}
-          >
-            <div className="account-label">{shortHex(account.address, 8)}</div>
-            <div className="account-value">balance {account.balance.toString()}</div>
+        {entries.map((entry) => (
+          <article key={entry.id} className={`account-card ${entry.id === selectedId ? 'account-card-active' : ''}`}>
+            <div className="account-label">{entry.keyLabel.startsWith('0x') ? shortHex(entry.keyLabel, 8) : entry.keyLabel}</div>
+            <div className="account-value">{entry.valueLabel}</div>
           </article>
         ))}
       </div>
@@ -1,12 +1,32 @@
-import type { GeneratedAccount } from '../mpt/account';
-import type { SimulationMode } from '../mpt/simulator';
+import type { PruneStrategy } from '../mpt/prune';
+import type { RawEncoding } from '../mpt/rawKey';
+import type { BuildMethod, CommitMode, IterationKind, SimulationMode } from '../mpt/simulator';
+import type { KeyMode, KeyValueEntry } from '../mpt/types';
+import { NODE_CACHE_CAPACITIES } from '../store/nodeCache';
+import type { KvLayout } from '../store/pathScheme';
 
 interface ControlBarProps {
   seed: string;
   accountCount: number;
   mode: SimulationMode;
+  keyMode: KeyMode;
+  rawKey: string;
+  rawValue: string;
+  rawEncoding: RawEncoding;
+  rawError?: string;
   selectedAddress: string;
+  customAddress: string;
+  customAddressError?: string;
   updateBalance: string;
+  storageSlot: string;
+  storageValue: string;
+  storageError?: string;
+  iterateKind: IterationKind;
+  iterateNibbles: string;
+  iterateError?: string;
+  pruneStrategy: PruneStrategy;
+  retainRoots: number;
+  witnessSize: number;
   speed: number;
   playing: boolean;
   canPrev: boolean;
@@ -14,16 +34,39 @@ interface ControlBarProps {
   debugMode: boolean;
   learningMode: boolean;
   useCache: boolean;
+  cacheCapacity: number;
+  commitMode: CommitMode;
+  buildMethod: BuildMethod;
   indexedDbMode: boolean;
-  accounts: GeneratedAccount[];
+  kvLayout: KvLayout;
+  entries: KeyValueEntry[];
   onSeedChange: (value: string) => void;
   onAccountCountChange: (value: number) => void;
   onGenerate: () => void;
   onBuild: () => void;
   onModeChange: (value: SimulationMode) => void;
+  onKeyModeChange: (value: KeyMode) => void;
+  onRawKeyChange: (value: string) => void;
+  onRawValueChange: (value: string) => void;
+  onRawEncodingChange: (value: RawEncoding) => void;
+  onAddRawEntry: () => void;
   onSelectAddress: (value: string) => void;
+  onCustomAddressChange: (value: string) => void;
   onLookup: () => void;
   onRunUpdate: () => void;
+  onStorageSlotChange: (value: string) => void;
+  onStorageValueChange: (value: string) => void;
+  onStorageWrite: () => void;
+  onDelete: () => void;
+  onProve: () => void;
+  onIterateKindChange: (value: IterationKind) => void;
+  onIterateNibblesChange: (value: string) => void;
+  onIterate: () => void;
+  onPruneStrategyChange: (value: PruneStrategy) => void;
+  onRetainRootsChange: (value: number) => void;
+  onPrune: () => void;
+  onWitnessSizeChange: (value: number) => void;
+  onWitness: () => void;
   onUpdateBalanceChange: (value: string) => void;
   onPrev: () => void;
   onNext: () => void;
@@ -33,41 +76,128 @@ interface ControlBarProps {
   onDebugModeChange: (value: boolean) => void;
   onLearningModeChange: (value: boolean) => void;
   onUseCacheChange: (value: boolean) => void;
+  onCacheCapacityChange: (value: number) => void;
+  onCommitModeChange: (value: CommitMode) => void;
+  onBuildMethodChange: (value: BuildMethod) => void;
   onIndexedDbModeChange: (value: boolean) => void;
+  onKvLayoutChange: (value: KvLayout) => void;
   onReset: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
+const ITEM_NOUNS: Record<KeyMode, string> = {
+  secure: 'account',
+  raw: 'key',
+  transactions: 'transaction',
+  receipts: 'receipt',
+};
+
 export function ControlBar(props: ControlBarProps) {
+  const noun = ITEM_NOUNS[props.keyMode];
+  const indexKeyed = props.keyMode === 'transactions' || props.keyMode === 'receipts';
   return (
     <header className="control-bar">
       <div className="control-group">
-        <label htmlFor="seed-input">Seed</label>
-        <input
-          id="seed-input"
-          value={props.seed}
-          onChange={(event) => props.onSeedChange(event.target.value)}
-          className="input"
-        />
+        <label htmlFor="key-mode-select">Trie</label>
+        <select
+          id="key-mode-select"
+          className="select"
+          value={props.keyMode}
+          onChange={(event) => props.onKeyModeChange(event.target.value as KeyMode)}
+        >
+          <option value="secure">State: keccak(address)</option>
+          <option value="raw">Raw: hex / UTF-8 bytes</option>
+          <option value="transactions">Transactions: rlp(index)</option>
+          <option value="receipts">Receipts: rlp(index)</option>
+        </select>
       </div>
 
+      {props.keyMode !== 'raw' ? (
+        <>
+          <div className="control-group">
+            <label htmlFor="seed-input">Seed</label>
+            <input
+              id="seed-input"
+              value={props.seed}
+              onChange={(event) => props.onSeedChange(event.target.value)}
+              className="input"
+            />
+          </div>
+
+          <div className="control-group">
+            <label htmlFor="n-select">Generate N {noun}s</label>
+            <select
+              id="n-select"
+              className="select"
+              value={props.accountCount}
+              onChange={(event) => props.onAccountCountChange(Number(event.target.value))}
+            >
+              <option value={4}>4</option>
+              <option value={8}>8</option>
+              <option value={16}>16</option>
+              <option value={32}>32</option>
+            </select>
+          </div>
+
+          <button type="button" className="button button-accent" onClick={props.onGenerate}>
+            Generate
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="control-group">
+            <label htmlFor="raw-encoding">Encoding</label>
+            <select
+              id="raw-encoding"
+              className="select"
+              value={props.rawEncoding}
+              onChange={(event) => props.onRawEncodingChange(event.target.value as RawEncoding)}
+            >
+              <option value="utf8">UTF-8</option>
+              <option value="hex">Hex</option>
+            </select>
+          </div>
+          <div className="control-group">
+            <label htmlFor="raw-key">Key</label>
+            <input
+              id="raw-key"
+              value={props.rawKey}
+              placeholder={props.rawEncoding === 'hex' ? '0x646f' : 'dog'}
+              onChange={(event) => props.onRawKeyChange(event.target.value)}
+              className="input"
+            />
+          </div>
+          <div className="control-group">
+            <label htmlFor="raw-value">Value</label>
+            <input
+              id="raw-value"
+              value={props.rawValue}
+              placeholder={props.rawEncoding === 'hex' ? '0x7075707079' : 'puppy'}
+              onChange={(event) => props.onRawValueChange(event.target.value)}
+              className="input"
+            />
+            {props.rawError && <span className="input-error">{props.rawError}</span>}
+          </div>
+          <button type="button" className="button button-accent" onClick={props.onAddRawEntry}>
+            Add Entry
+          </button>
+        </>
+      )}
       <div className="control-group">
-        <label htmlFor="n-select">Generate N accounts</label>
+        <label htmlFor="build-method-select">Builder</label>
         <select
-          id="n-select"
+          id="build-method-select"
           className="select"
-          value={props.accountCount}
-          onChange={(event) => props.onAccountCountChange(Number(event.target.value))}
+          value={props.buildMethod}
+          onChange={(event) => props.onBuildMethodChange(event.target.value as BuildMethod)}
         >
-          <option value={4}>4</option>
-          <option value={8}>8</option>
-          <option value={16}>16</option>
-          <option value={32}>32</option>
+          <option value="insert">Insert loop</option>
+          <option value="stack">Stack trie (sorted stream)</option>
         </select>
       </div>
-
-      <button type="button" className="button button-accent" onClick={props.onGenerate}>
-        Generate
-      </button>
       <button type="button" className="button button-accent" onClick={props.onBuild}>
         Build Trie
       </button>
@@ -82,26 +212,54 @@ export function ControlBar(props: ControlBarProps) {
         >
           <option value="insert">Insert</option>
           <option value="lookup">Lookup</option>
-          <option value="update">Update balance</option>
+          {!indexKeyed && <option value="update">{props.keyMode === 'raw' ? 'Update value' : 'Update balance'}</option>}
+          <option value="delete">Delete {noun}</option>
+          <option value="prove">Prove / verify</option>
+          <option value="iterate">Iterate keys</option>
+          {props.keyMode === 'secure' && <option value="sstore">Storage write (SSTORE)</option>}
+          <option value="prune">Prune DB</option>
+          <option value="witness">Block witness</option>
         </select>
       </div>
 
       <div className="control-group">
-        <label htmlFor="account-select">Pick account</label>
+        <label htmlFor="account-select">Pick {noun}</label>
         <select
           id="account-select"
           className="select account-select"
           value={props.selectedAddress}
           onChange={(event) => props.onSelectAddress(event.target.value)}
         >
-          {props.accounts.map((account) => (
-            <option key={account.address} value={account.address}>
-              {account.address}
+          {props.entries.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.keyLabel}
             </option>
           ))}
         </select>
       </div>
 
+      {(props.mode === 'lookup' || props.mode === 'prove') && (
+        <div className="control-group">
+          <label htmlFor="custom-address">
+            {props.keyMode === 'secure' ? 'Or any address' : indexKeyed ? 'Or any index' : 'Or any key'}
+          </label>
+          <input
+            id="custom-address"
+            value={props.customAddress}
+            placeholder={
+              props.keyMode === 'secure'
+                ? '0x... (20 bytes)'
+                : indexKeyed
+                  ? 'index, e.g. 0'
+                  : `${props.rawEncoding === 'hex' ? 'hex' : 'UTF-8'} key`
+            }
+            onChange={(event) => props.onCustomAddressChange(event.target.value)}
+            className="input account-select"
+          />
+          {props.customAddressError && <span className="input-error">{props.customAddressError}</span>}
+        </div>
+      )}
+
       {props.mode === 'lookup' && (
         <button type="button" className="button button-accent" onClick={props.onLookup}>
           Lookup
@@ -111,7 +269,7 @@ export function ControlBar(props: ControlBarProps) {
       {props.mode === 'update' && (
         <>
           <div className="control-group">
-            <label htmlFor="new-balance">New balance</label>
+            <label htmlFor="new-balance">{props.keyMode === 'raw' ? 'New value' : 'New balance'}</label>
             <input
               id="new-balance"
               value={props.updateBalance}
@@ -125,6 +283,135 @@ export function ControlBar(props: ControlBarProps) {
         </>
       )}
 
+      {props.mode === 'sstore' && (
+        <>
+          <div className="control-group">
+            <label htmlFor="storage-slot">Slot</label>
+            <input
+              id="storage-slot"
+              value={props.storageSlot}
+              placeholder="0"
+              onChange={(event) => props.onStorageSlotChange(event.target.value)}
+              className="input"
+            />
+          </div>
+          <div className="control-group">
+            <label htmlFor="storage-value">Value (0 clears)</label>
+            <input
+              id="storage-value"
+              value={props.storageValue}
+              placeholder="42"
+              onChange={(event) => props.onStorageValueChange(event.target.value)}
+              className="input"
+            />
+            {props.storageError && <span className="input-error">{props.storageError}</span>}
+          </div>
+          <button type="button" className="button button-accent" onClick={props.onStorageWrite}>
+            Apply SSTORE
+          </button>
+        </>
+      )}
+
+      {props.mode === 'delete' && (
+        <button type="button" className="button button-danger" onClick={props.onDelete}>
+          Delete {noun.charAt(0).toUpperCase()}{noun.slice(1)}
+        </button>
+      )}
+
+      {props.mode === 'prove' && (
+        <button type="button" className="button button-accent" onClick={props.onProve}>
+          Prove + Verify
+        </button>
+      )}
+
+      {props.mode === 'iterate' && (
+        <>
+          <div className="control-group">
+            <label htmlFor="iterate-kind">Walk</label>
+            <select
+              id="iterate-kind"
+              className="select"
+              value={props.iterateKind}
+              onChange={(event) => props.onIterateKindChange(event.target.value as IterationKind)}
+            >
+              <option value="all">All leaves</option>
+              <option value="seek">Seek from key</option>
+              <option value="prefix">Keys under prefix</option>
+            </select>
+          </div>
+          {props.iterateKind !== 'all' && (
+            <div className="control-group">
+              <label htmlFor="iterate-nibbles">{props.iterateKind === 'seek' ? 'Start nibbles' : 'Prefix nibbles'}</label>
+              <input
+                id="iterate-nibbles"
+                value={props.iterateNibbles}
+                placeholder="hex nibbles, e.g. a3"
+                onChange={(event) => props.onIterateNibblesChange(event.target.value)}
+                className="input"
+              />
+              {props.iterateError && <span className="input-error">{props.iterateError}</span>}
+            </div>
+          )}
+          <button type="button" className="button button-accent" onClick={props.onIterate}>
+            Run Walk
+          </button>
+        </>
+      )}
+
+      {props.mode === 'prune' && (
+        <>
+          <div className="control-group">
+            <label htmlFor="prune-strategy">Strategy</label>
+            <select
+              id="prune-strategy"
+              className="select"
+              value={props.pruneStrategy}
+              onChange={(event) => props.onPruneStrategyChange(event.target.value as PruneStrategy)}
+            >
+              <option value="mark-sweep">Mark and sweep</option>
+              <option value="refcount">Reference counting</option>
+            </select>
+          </div>
+          <div className="control-group">
+            <label htmlFor="retain-roots">Retain roots</label>
+            <select
+              id="retain-roots"
+              className="select"
+              value={props.retainRoots}
+              onChange={(event) => props.onRetainRootsChange(Number(event.target.value))}
+            >
+              <option value={1}>Latest only</option>
+              <option value={2}>Latest 2</option>
+              <option value={4}>Latest 4</option>
+            </select>
+          </div>
+          <button type="button" className="button button-danger" onClick={props.onPrune}>
+            Run Prune
+          </button>
+        </>
+      )}
+
+      {props.mode === 'witness' && (
+        <>
+          <div className="control-group">
+            <label htmlFor="witness-size">Block ops</label>
+            <select
+              id="witness-size"
+              className="select"
+              value={props.witnessSize}
+              onChange={(event) => props.onWitnessSizeChange(Number(event.target.value))}
+            >
+              <option value={2}>2 (1 read, 1 write)</option>
+              <option value={4}>4</option>
+              <option value={8}>8</option>
+            </select>
+          </div>
+          <button type="button" className="button button-accent" onClick={props.onWitness}>
+            Build &amp; Replay
+          </button>
+        </>
+      )}
+
       <div className="step-controls">
         <button type="button" className="button" onClick={props.onPrev} disabled={!props.canPrev}>
           Prev
@@ -165,6 +452,36 @@ export function ControlBar(props: ControlBarProps) {
         Use cache
       </label>
 
+      <div className="control-group">
+        <label htmlFor="cache-capacity-select">Cache nodes</label>
+        <select
+          id="cache-capacity-select"
+          className="select"
+          value={props.cacheCapacity}
+          disabled={!props.useCache}
+          onChange={(event) => props.onCacheCapacityChange(Number(event.target.value))}
+        >
+          {NODE_CACHE_CAPACITIES.map((capacity) => (
+            <option key={capacity} value={capacity}>
+              {capacity} (LRU)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="control-group">
+        <label htmlFor="commit-mode-select">Hashing</label>
+        <select
+          id="commit-mode-select"
+          className="select"
+          value={props.commitMode}
+          onChange={(event) => props.onCommitModeChange(event.target.value as CommitMode)}
+        >
+          <option value="immediate">Immediate (hash per insert)</option>
+          <option value="deferred">Deferred (hash on commit)</option>
+        </select>
+      </div>
+
       <label className="toggle">
         <input
           type="checkbox"
@@ -174,6 +491,20 @@ export function ControlBar(props: ControlBarProps) {
         IndexedDB mode
       </label>
 
+      <div className="control-group">
+        <label htmlFor="kv-layout-select">Storage</label>
+        <select
+          id="kv-layout-select"
+          className="select"
+          value={props.kvLayout}
+          onChange={(event) => props.onKvLayoutChange(event.target.value as KvLayout)}
+        >
+          <option value="hash">Hash-based (hash -&gt; node)</option>
+          <option value="path">Path-based (path -&gt; node)</option>
+          <option value="side-by-side">Side by side</option>
+        </select>
+      </div>
+
       <label className="toggle">
         <input
           type="checkbox"
@@ -192,6 +523,15 @@ export function ControlBar(props: ControlBarProps) {
         Learning mode
       </label>
 
+      <div className="step-controls">
+        <button type="button" className="button" onClick={props.onUndo} disabled={!props.canUndo} title="Undo (Ctrl+Z)">
+          Undo
+        </button>
+        <button type="button" className="button" onClick={props.onRedo} disabled={!props.canRedo} title="Redo (Ctrl+Shift+Z / Ctrl+Y)">
+          Redo
+        </button>
+      </div>
+
       <button type="button" className="button button-danger" onClick={props.onReset}>
         Reset
       </button>
@@ -1,14 +1,28 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { DbEntry } from '../store/kv';
+import type { NodeCacheEntry, NodeCacheStats } from '../store/nodeCache';
 import { decodeTrieNode, inspectNode } from '../mpt/nodeCodec';
 import { hexToBytes, shortHex } from '../mpt/bytes';
+import type { NodeLiveness } from '../mpt/prune';
+import { formatPathKey, type KvLayout, type PathDbEntry } from '../store/pathScheme';
 
 interface DbPanelProps {
   entries: DbEntry[];
+  visibleKeys?: string[];
   highlightedKey?: string;
   revealKey?: string;
-  dbAction?: 'GET' | 'PUT';
+  dbAction?: 'GET' | 'PUT' | 'DELETE';
   referencedBy: Record<string, string[]>;
+  liveKeys?: Set<string>;
+  deletedEntries?: DbEntry[];
+  corruptKeys?: Set<string>;
+  cacheStats?: NodeCacheStats;
+  cacheEntries?: NodeCacheEntry[];
+  layout?: KvLayout;
+  pathEntries?: PathDbEntry[];
+  onEditRow?: (keyHex: string, valueHex: string) => void;
+  onDeleteRow?: (keyHex: string) => void;
+  onSwapRows?: (keyA: string, keyB: string) => void;
   activeNodeId?: string;
   learningMode: boolean;
   debugMode: boolean;
@@ -17,17 +31,39 @@ interface DbPanelProps {
 export function DbPanel(props: DbPanelProps) {
   const [search, setSearch] = useState('');
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [sandbox, setSandbox] = useState(false);
+  const [editing, setEditing] = useState<{ keyHex: string; draft: string }>();
+  const [swapFrom, setSwapFrom] = useState<string>();
+  const [showCache, setShowCache] = useState(false);
   const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
+  const cachedKeys = useMemo(() => new Set((props.cacheEntries ?? []).map((entry) => entry.keyHex)), [props.cacheEntries]);
+
   const filtered = useMemo(() => {
     const q = search.toLowerCase().trim();
+    const visible = props.visibleKeys ? new Set(props.visibleKeys) : undefined;
+    const scoped = visible
+      ? props.entries.filter((entry) => visible.has(entry.keyHex))
+      : [...props.entries, ...(props.deletedEntries ?? [])];
     if (!q) {
-      return props.entries;
+      return scoped;
     }
-    return props.entries.filter(
+    return scoped.filter(
       (entry) => entry.keyHex.includes(q) || entry.nodeType.includes(q) || entry.valueHex.includes(q),
     );
-  }, [props.entries, search]);
+  }, [props.deletedEntries, props.entries, props.visibleKeys, search]);
+
+  const deletedKeys = useMemo(() => new Set((props.deletedEntries ?? []).map((entry) => entry.keyHex)), [props.deletedEntries]);
+  const livenessOf = (entry: DbEntry): NodeLiveness | undefined => {
+    if (deletedKeys.has(entry.keyHex)) {
+      return 'deleted';
+    }
+    if (!props.liveKeys) {
+      return undefined;
+    }
+    return props.liveKeys.has(entry.keyHex) ? 'live' : 'stale';
+  };
+  const staleCount = props.liveKeys ? props.entries.filter((entry) => !props.liveKeys!.has(entry.keyHex)).length : 0;
 
   useEffect(() => {
     const key = props.revealKey ?? props.highlightedKey;
@@ -40,20 +76,78 @@ export function DbPanel(props: DbPanelProps) {
     }
   }, [props.highlightedKey, props.revealKey]);
 
+  const layout = props.layout ?? 'hash';
+  const pathBytes = (props.pathEntries ?? []).reduce((sum, entry) => sum + entry.valueSize, 0);
+  const title =
+    layout === 'hash' ? 'KV Database (hash -> RLP node)' : layout === 'path' ? 'KV Database (path -> RLP node)' : 'KV Database (hash | path)';
+
   const activeRefSources = props.highlightedKey ? props.referencedBy[props.highlightedKey] ?? [] : [];
   const referencedByActiveNode = props.activeNodeId ? activeRefSources.includes(props.activeNodeId) : false;
 
   return (
     <section className="panel">
       <div className="panel-head">
-        <h3>KV Database (hash -&gt; RLP node)</h3>
-        <span>{props.entries.length} hashed nodes</span>
+        <h3>{title}</h3>
+        <span>
+          {props.visibleKeys
+            ? `${props.entries.filter((entry) => props.visibleKeys!.includes(entry.keyHex)).length} of ${props.entries.length} rows shipped in proof`
+            : layout === 'path'
+              ? `${props.pathEntries?.length ?? 0} path rows, ${pathBytes} bytes`
+              : `${props.entries.length} hashed nodes${staleCount > 0 ? `, ${staleCount} stale` : ''}`}
+        </span>
       </div>
       {props.learningMode && props.highlightedKey && (
         <div className="db-causality-note">
           Referenced by active node: {referencedByActiveNode ? 'yes' : activeRefSources.length > 0 ? 'indirectly' : 'not resolved'}
         </div>
       )}
+      {props.onEditRow && !props.visibleKeys && (
+        <label className="toggle db-sandbox-toggle">
+          <input
+            type="checkbox"
+            checked={sandbox}
+            onChange={(event) => {
+              setSandbox(event.target.checked);
+              setEditing(undefined);
+              setSwapFrom(undefined);
+            }}
+          />
+          Fault injection: edit, delete or swap rows
+        </label>
+      )}
+      {props.cacheStats && (
+        <div className="db-cache">
+          <div className="db-cache-stats">
+            <span>
+              Node cache {props.cacheStats.size}/{props.cacheStats.capacity} ({props.cacheStats.bytes} B)
+            </span>
+            <span>hits {props.cacheStats.hits}</span>
+            <span>misses {props.cacheStats.misses}</span>
+            <span>evictions {props.cacheStats.evictions}</span>
+            <span>
+              hit rate{' '}
+              {props.cacheStats.hits + props.cacheStats.misses > 0
+                ? `${Math.round((props.cacheStats.hits / (props.cacheStats.hits + props.cacheStats.misses)) * 100)}%`
+                : '-'}
+            </span>
+            <button type="button" className="mini-button" onClick={() => setShowCache((prev) => !prev)}>
+              {showCache ? 'hide' : 'inspect'}
+            </button>
+          </div>
+          {showCache && (
+            <ol className="db-cache-entries">
+              {(props.cacheEntries ?? []).map((entry, index) => (
+                <li key={entry.keyHex} className={props.highlightedKey === entry.keyHex ? 'db-cache-active' : ''}>
+                  <span>{index === 0 ? 'MRU' : index === (props.cacheEntries ?? []).length - 1 ? 'LRU' : ''}</span>
+                  <code>{shortHex(entry.keyHex, 8)}</code>
+                  <span>{entry.size} B</span>
+                  <span>{entry.hits} hits</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
       <input
         className="input db-search"
         placeholder="Search hash, node type, value hex"
@@ -61,74 +155,166 @@ export function DbPanel(props: DbPanelProps) {
         onChange={(event) => setSearch(event.target.value)}
       />
 
-      <div className="db-table">
-        <div className="db-header">
-          <span>Key</span>
-          <span>Bytes</span>
-          <span>Node</span>
-          <span>Decode</span>
-          <span>Referenced by</span>
-        </div>
-        {filtered.map((entry) => {
-          const isHighlighted = props.highlightedKey === entry.keyHex || props.revealKey === entry.keyHex;
-          const actionClass = props.dbAction === 'PUT' ? 'db-row-put' : 'db-row-get';
-          const refs = props.referencedBy[entry.keyHex] ?? [];
+      <div className={`db-layout db-layout-${layout}`}>
+        {layout !== 'path' && (
+          <div className="db-table">
+            <div className="db-header">
+              <span>Key</span>
+              <span>Bytes</span>
+              <span>Node</span>
+              <span>Decode</span>
+              <span>State</span>
+              <span>Referenced by</span>
+            </div>
+            {filtered.map((entry) => {
+              const isHighlighted = props.highlightedKey === entry.keyHex || props.revealKey === entry.keyHex;
+              const actionClass =
+                props.dbAction === 'PUT' ? 'db-row-put' : props.dbAction === 'DELETE' ? 'db-row-delete' : 'db-row-get';
+              const refs = props.referencedBy[entry.keyHex] ?? [];
+              const liveness = livenessOf(entry);
 
-          let decodedSummary = '';
-          if (expanded[entry.keyHex]) {
-            try {
-              const rlp = hexToBytes(entry.valueHex);
-              const node = decodeTrieNode(rlp);
-              decodedSummary = JSON.stringify(inspectNode(node, rlp, hexToBytes(entry.keyHex)), null, 2);
-            } catch (error) {
-              decodedSummary = `Decode error: ${(error as Error).message}`;
-            }
-          }
+              let decodedSummary = '';
+              if (expanded[entry.keyHex]) {
+                try {
+                  const rlp = hexToBytes(entry.valueHex);
+                  const node = decodeTrieNode(rlp);
+                  decodedSummary = JSON.stringify(inspectNode(node, rlp, hexToBytes(entry.keyHex)), null, 2);
+                } catch (error) {
+                  decodedSummary = `Decode error: ${(error as Error).message}`;
+                }
+              }
 
-          return (
-            <div
-              key={entry.keyHex}
-              ref={(node) => {
-                rowRefs.current[entry.keyHex] = node;
-              }}
-              className={`db-row ${isHighlighted ? actionClass : ''}`}
-            >
-              <span className="db-key-cell">
-                <code>{shortHex(entry.keyHex, 10)}</code>
-                <button
-                  type="button"
-                  className="mini-button"
-                  onClick={() => {
-                    void navigator.clipboard?.writeText(entry.keyHex);
+              return (
+                <div
+                  key={entry.keyHex}
+                  ref={(node) => {
+                    rowRefs.current[entry.keyHex] = node;
                   }}
+                  className={`db-row ${isHighlighted ? actionClass : ''} ${liveness === 'deleted' ? 'db-row-deleted' : ''} ${props.corruptKeys?.has(entry.keyHex) ? 'db-row-corrupt' : ''}`}
                 >
-                  copy
-                </button>
-              </span>
-              <span>{entry.valueSize}</span>
-              <span>{entry.nodeType}</span>
-              <span>
-                <button
-                  type="button"
-                  className="mini-button"
-                  onClick={() => setExpanded((prev) => ({ ...prev, [entry.keyHex]: !prev[entry.keyHex] }))}
-                >
-                  {expanded[entry.keyHex] ? 'hide' : 'show'}
-                </button>
-              </span>
-              <span>
-                {refs.length === 0 ? '-' : refs.map((ref) => shortHex(ref, 8)).join(', ')}
-              </span>
-              {expanded[entry.keyHex] && (
-                <pre className="db-expanded">
-                  {props.debugMode ? entry.valueHex : `${entry.valueHex.slice(0, 160)}...`}
-                  {'\n'}
-                  {decodedSummary}
-                </pre>
-              )}
+                  <span className="db-key-cell">
+                    <code>{shortHex(entry.keyHex, 10)}</code>
+                    <button
+                      type="button"
+                      className="mini-button"
+                      onClick={() => {
+                        void navigator.clipboard?.writeText(entry.keyHex);
+                      }}
+                    >
+                      copy
+                    </button>
+                  </span>
+                  <span>{entry.valueSize}</span>
+                  <span>{entry.nodeType}</span>
+                  <span>
+                    <button
+                      type="button"
+                      className="mini-button"
+                      onClick={() => setExpanded((prev) => ({ ...prev, [entry.keyHex]: !prev[entry.keyHex] }))}
+                    >
+                      {expanded[entry.keyHex] ? 'hide' : 'show'}
+                    </button>
+                  </span>
+                  <span>
+                    {liveness ? <span className={`db-liveness db-liveness-${liveness}`}>{liveness}</span> : '-'}
+                    {liveness !== 'deleted' && <span className="db-refcount">rc {entry.refCount}</span>}
+                    {cachedKeys.has(entry.keyHex) && <span className="db-cached">cached</span>}
+                  </span>
+                  <span>
+                    {refs.length === 0 ? '-' : refs.map((ref) => shortHex(ref, 8)).join(', ')}
+                  </span>
+                  {sandbox && liveness !== 'deleted' && (
+                    <div className="db-sandbox">
+                      {editing?.keyHex === entry.keyHex ? (
+                        <>
+                          <input
+                            className="input"
+                            value={editing.draft}
+                            aria-label={`RLP bytes for ${entry.keyHex}`}
+                            onChange={(event) => setEditing({ keyHex: entry.keyHex, draft: event.target.value })}
+                          />
+                          <button
+                            type="button"
+                            className="mini-button"
+                            disabled={!/^0x([0-9a-f]{2})*$/i.test(editing.draft.trim())}
+                            onClick={() => {
+                              props.onEditRow?.(entry.keyHex, editing.draft.trim());
+                              setEditing(undefined);
+                            }}
+                          >
+                            apply
+                          </button>
+                          <button type="button" className="mini-button" onClick={() => setEditing(undefined)}>
+                            cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            className="mini-button"
+                            onClick={() => setEditing({ keyHex: entry.keyHex, draft: entry.valueHex })}
+                          >
+                            edit bytes
+                          </button>
+                          <button type="button" className="mini-button" onClick={() => props.onDeleteRow?.(entry.keyHex)}>
+                            delete row
+                          </button>
+                          <button
+                            type="button"
+                            className="mini-button"
+                            onClick={() => {
+                              if (swapFrom && swapFrom !== entry.keyHex) {
+                                props.onSwapRows?.(swapFrom, entry.keyHex);
+                                setSwapFrom(undefined);
+                              } else {
+                                setSwapFrom(swapFrom === entry.keyHex ? undefined : entry.keyHex);
+                              }
+                            }}
+                          >
+                            {swapFrom === entry.keyHex ? 'cancel swap' : swapFrom ? 'swap with marked' : 'mark for swap'}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {expanded[entry.keyHex] && (
+                    <pre className="db-expanded">
+                      {props.debugMode ? entry.valueHex : `${entry.valueHex.slice(0, 160)}...`}
+                      {'\n'}
+                      {decodedSummary}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {layout !== 'hash' && (
+          <div className="db-table db-path-table">
+            <div className="db-header">
+              <span>Path</span>
+              <span>Bytes</span>
+              <span>Node</span>
+              <span>Current hash</span>
             </div>
-          );
-        })}
+            {(props.pathEntries ?? []).map((entry) => {
+              const isHighlighted = entry.hashHex !== undefined && entry.hashHex === (props.highlightedKey ?? props.revealKey);
+              return (
+                <div key={entry.pathKey} className={`db-row ${isHighlighted ? 'db-row-get' : ''}`}>
+                  <span className="db-key-cell">
+                    <code>{formatPathKey(entry.pathKey)}</code>
+                  </span>
+                  <span>{entry.valueSize}</span>
+                  <span>{entry.nodeType}</span>
+                  <span>
+                    <code>{entry.hashHex ? shortHex(entry.hashHex, 8) : 'embedded'}</code>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </section>
   );
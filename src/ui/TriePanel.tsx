@@ -1,11 +1,12 @@
 import type { TrieGraph, TrieGraphNode } from '../mpt/types';
-import type { SimulationStep } from '../mpt/simulator';
+import type { SimulationStep, StorageView } from '../mpt/simulator';
 import { TrieGraphView } from './trieGraph/TrieGraphView';
 
 interface TriePanelProps {
   graph: TrieGraph;
   activeNodeId?: string;
   changedNodeIds: string[];
+  focusNodeIds?: string[];
   selectedNodeId?: string;
   currentStep?: SimulationStep;
   keyNibbles: number[];
@@ -15,6 +16,10 @@ interface TriePanelProps {
   playing: boolean;
   onSelectNode: (node: TrieGraphNode) => void;
   onSelectNodeId?: (nodeId: string) => void;
+  storageView?: StorageView;
+  storageLinks?: Record<string, StorageView>;
+  onOpenStorage?: (view: StorageView) => void;
+  onCloseStorage?: () => void;
   debugMode: boolean;
 }
 
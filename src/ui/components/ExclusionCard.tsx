@@ -0,0 +1,51 @@
+import { shortHex } from '../../mpt/bytes';
+import type { DivergenceKind } from '../../mpt/types';
+
+interface ExclusionCardProps {
+  keyLabel: string;
+  divergence?: DivergenceKind;
+  reason?: string;
+}
+
+const CASES: { kind: DivergenceKind; label: string; explain: string }[] = [
+  {
+    kind: 'missing-child',
+    label: 'Missing child reference',
+    explain: 'The branch slot for the next nibble is empty, so no key with this prefix exists.',
+  },
+  {
+    kind: 'leaf-mismatch',
+    label: 'Leaf mismatch',
+    explain: 'The path ends at a leaf for a different key that shares the consumed prefix.',
+  },
+  {
+    kind: 'extension-mismatch',
+    label: 'Extension mismatch',
+    explain: 'The remaining nibbles leave the shared extension path, so no key can continue below it.',
+  },
+  {
+    kind: 'branch-value-empty',
+    label: 'Empty branch value',
+    explain: 'The key ends exactly at a branch whose value slot is empty. Only raw keys of different lengths reach this case.',
+  },
+];
+
+export function ExclusionCard(props: ExclusionCardProps) {
+  const known = CASES.some((entry) => entry.kind === props.divergence);
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Absence of {props.keyLabel.startsWith('0x') ? shortHex(props.keyLabel, 8) : props.keyLabel}</div>
+      <ul className="exclusion-cases">
+        {CASES.map((entry) => (
+          <li key={entry.kind} className={entry.kind === props.divergence ? 'exclusion-case-active' : ''}>
+            <strong>{entry.label}</strong>
+            <span>{entry.explain}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="commitment-note">
+        {known ? `Proven by: ${props.reason ?? props.divergence}` : `Divergence: ${props.reason ?? 'unknown'}`}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,46 @@
+import { nibblesToString, shortHex } from '../../mpt/bytes';
+import type { IntegrityFinding, IntegrityReport } from '../../mpt/integrity';
+
+interface IntegrityCardProps {
+  report?: IntegrityReport;
+  onRun: () => void;
+  onSelect: (finding: IntegrityFinding) => void;
+}
+
+function findingPath(finding: IntegrityFinding): string {
+  const local = nibblesToString(finding.path) || '(root)';
+  return finding.owner ? `${finding.owner.slice(0, 8)}…/${local}` : local;
+}
+
+export function IntegrityCard({ report, onRun, onSelect }: IntegrityCardProps) {
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Integrity Check</div>
+      <div className="snapshot-head">
+        <span>
+          {report
+            ? `${report.checkedNodes} nodes checked, ${report.findings.length} finding${report.findings.length === 1 ? '' : 's'}`
+            : 'Walk the trie from the displayed root and verify every row'}
+        </span>
+        <button type="button" className="mini-button" onClick={onRun}>
+          Run check
+        </button>
+      </div>
+      {report && report.findings.length > 0 && (
+        <ul className="integrity-findings">
+          {report.findings.map((finding, index) => (
+            <li key={index}>
+              <button type="button" className="mini-button" onClick={() => onSelect(finding)}>
+                show
+              </button>
+              <span className="integrity-kind">{finding.kind}</span>
+              <code>{findingPath(finding)}</code>
+              <code>{finding.dbKeyHex ? shortHex(finding.dbKeyHex, 8) : 'embedded'}</code>
+              <span>{finding.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+import type { MultiProofSavings, MultiProofVerification } from '../../mpt/multiproof';
+
+interface MultiProofCardProps {
+  savings: MultiProofSavings[];
+  verification: MultiProofVerification;
+}
+
+export function MultiProofCard({ savings, verification }: MultiProofCardProps) {
+  const last = savings[savings.length - 1];
+  const found = verification.results.filter((result) => result.status === 'found').length;
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Multiproof</div>
+      <ol className="storage-growth">
+        <li className="storage-growth-head">
+          <span>Keys proved</span>
+          <span>Separate proofs</span>
+          <span>Multiproof</span>
+          <span>Saved</span>
+        </li>
+        {savings.map((row) => (
+          <li key={row.keyCount}>
+            <span>{row.keyCount}</span>
+            <span>
+              {row.naiveNodes} nodes / {row.naiveBytes} B
+            </span>
+            <span>
+              {row.nodes} nodes / {row.bytes} B
+            </span>
+            <span>{row.naiveBytes > 0 ? Math.round((1 - row.bytes / row.naiveBytes) * 100) : 0}%</span>
+          </li>
+        ))}
+      </ol>
+      {last && (
+        <p className="commitment-note">
+          {verification.valid
+            ? `The ${last.keyCount}-key multiproof verified in one pass: ${found} found, ${verification.results.length - found} absent, all ${verification.usedNodes} nodes used once.`
+            : `The ${last.keyCount}-key multiproof was rejected: ${verification.reason}`}
+        </p>
+      )}
+    </section>
+  );
+}
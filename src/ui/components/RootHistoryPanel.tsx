@@ -0,0 +1,54 @@
+import { shortHex } from '../../mpt/bytes';
+import type { RootHistoryEntry } from '../../store/rootHistory';
+
+interface RootHistoryPanelProps {
+  history: RootHistoryEntry[];
+  viewingId?: number;
+  onView: (id: number | undefined) => void;
+  onRename: (id: number, label: string) => void;
+}
+
+export function RootHistoryPanel({ history, viewingId, onView, onRename }: RootHistoryPanelProps) {
+  const headId = history[history.length - 1]?.id;
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Root History</div>
+      <ol className="root-history">
+        {[...history].reverse().map((entry) => {
+          const active = entry.id === (viewingId ?? headId);
+          return (
+            <li key={entry.id} className={`${active ? 'root-history-active' : ''} ${entry.pruned ? 'root-history-pruned' : ''}`}>
+              <span>#{entry.id}</span>
+              <input
+                className="input root-history-label"
+                value={entry.label}
+                aria-label={`Label for root #${entry.id}`}
+                onChange={(event) => onRename(entry.id, event.target.value)}
+              />
+              <span>{entry.op}</span>
+              <span>{new Date(entry.createdAt).toLocaleTimeString()}</span>
+              <code>{entry.rootRefHex === '0x' ? 'empty' : shortHex(entry.rootRefHex, 8)}</code>
+              {entry.pruned ? (
+                <span>pruned</span>
+              ) : (
+                <button
+                  type="button"
+                  className="mini-button"
+                  disabled={active}
+                  onClick={() => onView(entry.id === headId ? undefined : entry.id)}
+                >
+                  {entry.id === headId ? 'head' : 'view'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <p className="commitment-note">
+        {viewingId === undefined
+          ? 'Old roots stay queryable because their content-addressed nodes are never overwritten.'
+          : 'Lookup, prove and iterate now run against this past root. Writes always apply to the head.'}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,58 @@
+import { shortHex } from '../../mpt/bytes';
+import type { LookupSimulationResult, SimulationStep } from '../../mpt/simulator';
+import type { SnapshotCheck } from '../../store/snapshot';
+
+interface SnapshotCardProps {
+  rows: number;
+  lookup?: LookupSimulationResult;
+  check?: SnapshotCheck;
+  onCheck: () => void;
+}
+
+function TraceColumn({ title, steps }: { title: string; steps: SimulationStep[] }) {
+  return (
+    <div className="snapshot-trace">
+      <strong>{title}</strong>
+      <ol>
+        {steps.map((step) => (
+          <li key={step.id} className={step.dbAction === 'GET' && !step.cacheHit ? 'snapshot-trace-get' : ''}>
+            <span>{step.title}</span> {step.log}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function describeCheck(check: SnapshotCheck): string {
+  if (check.consistent) {
+    return `Consistent: ${check.checked} rows match the trie leaves.`;
+  }
+  const problems = [
+    ...check.missing.map((keyHex) => `missing ${shortHex(keyHex, 8)}`),
+    ...check.stale.map((keyHex) => `stale ${shortHex(keyHex, 8)}`),
+    ...check.mismatched.map((keyHex) => `value differs at ${shortHex(keyHex, 8)}`),
+  ];
+  return `Inconsistent: ${problems.join(', ')}.`;
+}
+
+export function SnapshotCard({ rows, lookup, check, onCheck }: SnapshotCardProps) {
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Flat Snapshot</div>
+      <div className="snapshot-head">
+        <span>{rows} rows key -&gt; value</span>
+        <button type="button" className="mini-button" onClick={onCheck}>
+          Check against trie
+        </button>
+      </div>
+      {check && <p className="commitment-note">{describeCheck(check)}</p>}
+      {lookup?.snapshotRead && (
+        <div className="snapshot-traces">
+          <TraceColumn title={`Trie walk: ${lookup.trieGets} DB GETs`} steps={lookup.steps} />
+          <TraceColumn title={`Snapshot: ${lookup.snapshotRead.gets} DB GET`} steps={lookup.snapshotRead.steps} />
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,40 @@
+import type { StorageGrowthSample } from '../../store/pathScheme';
+
+interface StorageGrowthCardProps {
+  samples: StorageGrowthSample[];
+}
+
+export function StorageGrowthCard({ samples }: StorageGrowthCardProps) {
+  const last = samples[samples.length - 1];
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Storage Growth</div>
+      <ol className="storage-growth">
+        <li className="storage-growth-head">
+          <span>Root</span>
+          <span>Hash scheme</span>
+          <span>Path scheme</span>
+          <span>Reverse diffs</span>
+        </li>
+        {samples.map((sample, index) => (
+          <li key={index}>
+            <span>{sample.label}</span>
+            <span>
+              {sample.hashRows} rows / {sample.hashBytes} B
+            </span>
+            <span>
+              {sample.pathRows} rows / {sample.pathBytes} B
+            </span>
+            <span>{sample.reverseDiffBytes} B</span>
+          </li>
+        ))}
+      </ol>
+      {last && (
+        <p className="commitment-note">
+          Hash keys keep every node version ({last.hashBytes} B). Path keys overwrite in place ({last.pathBytes} B) and keep{' '}
+          {last.reverseDiffBytes} B of reverse diffs to rewind to older roots.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+import { nibblesToString, shortHex } from '../../mpt/bytes';
+import { describeLeafValue } from '../../mpt/rawKey';
+import type { KeyChange, TrieDiff } from '../../mpt/trieDiff';
+import type { KeyMode, KeyValueEntry } from '../../mpt/types';
+
+interface TrieDiffCardProps {
+  diff: TrieDiff;
+  keyMode: KeyMode;
+  entries: KeyValueEntry[];
+}
+
+const MAX_LISTED_CHANGES = 8;
+
+function describeValue(value: Uint8Array | undefined, keyMode: KeyMode): string {
+  if (!value) {
+    return '∅';
+  }
+  try {
+    return describeLeafValue(value, keyMode);
+  } catch {
+    return 'undecodable value';
+  }
+}
+
+export function TrieDiffCard({ diff, keyMode, entries }: TrieDiffCardProps) {
+  const labels = new Map(entries.map((entry) => [nibblesToString(entry.keyNibbles), entry.keyLabel]));
+  const changes: { sign: string; change: KeyChange }[] = [
+    ...diff.added.map((change) => ({ sign: '+', change })),
+    ...diff.removed.map((change) => ({ sign: '−', change })),
+    ...diff.modified.map((change) => ({ sign: '~', change })),
+  ];
+  const keyLabel = (key: number[]): string => {
+    const label = labels.get(nibblesToString(key)) ?? `0x${nibblesToString(key)}`;
+    return label.startsWith('0x') ? shortHex(label, 6) : label;
+  };
+
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">What Changed</div>
+      <div className="commitment-grid">
+        <span>Keys</span>
+        <span>
+          +{diff.added.length} / −{diff.removed.length} / ~{diff.modified.length}
+        </span>
+        <span>Nodes removed</span>
+        <span>{diff.nodesOnlyInA.length}</span>
+        <span>Nodes created</span>
+        <span>{diff.nodesOnlyInB.length}</span>
+        <span>Shared subtrees</span>
+        <span>{diff.skippedSubtrees} skipped</span>
+      </div>
+      {changes.length > 0 && (
+        <ul className="diff-changes">
+          {changes.slice(0, MAX_LISTED_CHANGES).map(({ sign, change }) => (
+            <li key={`${sign}${nibblesToString(change.key)}`}>
+              <strong>
+                {sign} {keyLabel(change.key)}
+              </strong>
+              <span>
+                {describeValue(change.before, keyMode)} → {describeValue(change.after, keyMode)}
+              </span>
+            </li>
+          ))}
+          {changes.length > MAX_LISTED_CHANGES && <li>…and {changes.length - MAX_LISTED_CHANGES} more</li>}
+        </ul>
+      )}
+      <p className="commitment-note">
+        Subtrees whose hash refs match in both roots are skipped without being read, so the diff only touches rewritten paths.
+      </p>
+    </section>
+  );
+}
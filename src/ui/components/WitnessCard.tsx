@@ -0,0 +1,51 @@
+import { shortHex } from '../../mpt/bytes';
+import { describeRoot } from '../../mpt/trie';
+import type { WitnessSimulationResult } from '../../mpt/simulator';
+
+interface WitnessCardProps {
+  result: WitnessSimulationResult;
+}
+
+export function WitnessCard({ result }: WitnessCardProps) {
+  const { witness } = result;
+  return (
+    <section className="commitment-card">
+      <div className="commitment-title">Block Witness</div>
+      <ol className="witness-ops">
+        <li className="witness-ops-head">
+          <span>Op</span>
+          <span>Key</span>
+          <span>Touched</span>
+          <span>Added to witness</span>
+        </li>
+        {witness.ops.map((op, index) => (
+          <li key={index}>
+            <span>
+              #{index + 1} {op.kind}
+            </span>
+            <code>{op.keyLabel}</code>
+            <span>
+              {op.touchedNodes} nodes / {op.touchedBytes} B
+            </span>
+            <span>
+              {op.newNodes} nodes / {op.newBytes} B
+            </span>
+          </li>
+        ))}
+        <li className="witness-ops-head">
+          <span>Block</span>
+          <span />
+          <span>{witness.naiveBytes} B naive</span>
+          <span>
+            {witness.nodeCount} nodes / {witness.bytes} B
+          </span>
+        </li>
+      </ol>
+      <p className="commitment-note">
+        Deduplication saves {witness.naiveBytes - witness.bytes} B over shipping each operation's nodes separately. Stateless
+        replay from the witness alone {result.matches ? 'reproduced' : 'did not reproduce'} post-state root{' '}
+        <code>{shortHex(describeRoot(result.statelessRootRef).commitmentHex, 10)}</code>.
+      </p>
+    </section>
+  );
+}
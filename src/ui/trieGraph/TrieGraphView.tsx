@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { TrieGraph, TrieGraphNode } from '../../mpt/types';
-import type { SimulationStep } from '../../mpt/simulator';
+import { shortHex } from '../../mpt/bytes';
+import type { SimulationStep, StorageView } from '../../mpt/simulator';
 import { KeyProgressRibbon } from '../components/KeyProgressRibbon';
 import { buildRenderGraph, shortIdentifier } from './buildGraph';
 import { computeDagreLayout } from './layout';
@@ -9,6 +10,7 @@ interface TrieGraphViewProps {
   graph: TrieGraph;
   activeNodeId?: string;
   changedNodeIds: string[];
+  focusNodeIds?: string[];
   selectedNodeId?: string;
   currentStep?: SimulationStep;
   keyNibbles: number[];
@@ -18,6 +20,10 @@ interface TrieGraphViewProps {
   playing: boolean;
   onSelectNode: (node: TrieGraphNode) => void;
   onSelectNodeId?: (nodeId: string) => void;
+  storageView?: StorageView;
+  storageLinks?: Record<string, StorageView>;
+  onOpenStorage?: (view: StorageView) => void;
+  onCloseStorage?: () => void;
   debugMode: boolean;
 }
 
@@ -188,12 +194,18 @@ export function TrieGraphView(props: TrieGraphViewProps) {
   }, [positionedNodes]);
 
   const changedSet = useMemo(() => new Set(props.changedNodeIds), [props.changedNodeIds]);
+  const focusSet = useMemo(() => (props.focusNodeIds ? new Set(props.focusNodeIds) : undefined), [props.focusNodeIds]);
 
   return (
     <section className="panel">
       <div className="panel-head">
-        <h3>Trie Visualization</h3>
+        <h3>{props.storageView ? `Storage trie of ${shortHex(props.storageView.address, 6)}` : 'Trie Visualization'}</h3>
         <div className="trie-head-controls">
+          {props.storageView && props.onCloseStorage && (
+            <button type="button" className="mini-button" onClick={props.onCloseStorage}>
+              Back to state trie
+            </button>
+          )}
           <span>Pan + zoom. Dagre layered layout.</span>
           <button type="button" className="mini-button" onClick={fitView}>
             Recenter
@@ -251,8 +263,9 @@ export function TrieGraphView(props: TrieGraphViewProps) {
                 const labelX = (x1 + x2) / 2;
                 const labelY = bendY - 6;
                 const isActiveEdge = props.activeNodeId === edge.source || props.activeNodeId === edge.target;
+                const isDimmed = !!focusSet && !(focusSet.has(edge.source) && focusSet.has(edge.target));
                 return (
-                  <g key={edge.id} className={isActiveEdge ? 'edge-active' : ''}>
+                  <g key={edge.id} className={[isActiveEdge ? 'edge-active' : '', isDimmed ? 'edge-dimmed' : ''].join(' ')}>
                     <path
                       d={`M ${x1} ${y1} L ${x1} ${bendY} L ${x2} ${bendY} L ${x2} ${y2}`}
                       className={`edge edge-${edge.refKind}`}
@@ -268,6 +281,8 @@ export function TrieGraphView(props: TrieGraphViewProps) {
                 const isActive = props.activeNodeId === node.id;
                 const isChanged = changedSet.has(node.id);
                 const isSelected = props.selectedNodeId === node.id;
+                const isDimmed = !!focusSet && !focusSet.has(node.id);
+                const storageLink = props.storageLinks?.[node.id];
                 const showBranchGrid = node.source.type === 'branch' && !!node.branchMeta;
                 const branchDecision = fallbackDecision;
                 const decisionIndex =
@@ -277,7 +292,7 @@ export function TrieGraphView(props: TrieGraphViewProps) {
                   <g
                     key={node.id}
                     transform={`translate(${node.x},${node.y})`}
-                    className="trie-node"
+                    className={`trie-node ${isDimmed ? 'node-dimmed' : ''}`}
                     onClick={() => props.onSelectNode(node.source)}
                   >
                     <title>{node.tooltip}</title>
@@ -296,6 +311,21 @@ export function TrieGraphView(props: TrieGraphViewProps) {
                     <text x={12} y={22} className="node-title">
                       {fitLabel(node.title)}
                     </text>
+                    {storageLink && props.onOpenStorage && (
+                      <text
+                        x={node.width - 12}
+                        y={22}
+                        textAnchor="end"
+                        className="node-storage-link"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          props.onOpenStorage?.(storageLink);
+                        }}
+                      >
+                        <title>Open the storage trie this account leaf commits to</title>
+                        storage ▸
+                      </text>
+                    )}
                     <text x={12} y={42} className="node-subtitle">
                       {fitLabel(node.summary, 34)}
                     </text>
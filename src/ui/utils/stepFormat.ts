@@ -16,7 +16,7 @@ export interface FormattedStep {
   dbKey?: string;
   trieNodeId?: string;
   nodeType?: string;
-  dbAction?: 'GET' | 'PUT';
+  dbAction?: 'GET' | 'PUT' | 'DELETE';
   cacheHit?: boolean;
   searchable: string;
 }
@@ -67,7 +67,7 @@ export function formatStep(rawStep: SimulationStep, index: number): FormattedSte
   const nodeType = asString(activeNode.type) ?? asString(raw.nodeType);
   const dbKey = asString(raw.highlightedDbKey) ?? asString(raw.dbKeyHex) ?? asString(raw.dbKey);
   const dbActionRaw = asString(raw.dbAction) ?? asString(raw.action) ?? asString(raw.op);
-  const dbAction = dbActionRaw === 'GET' || dbActionRaw === 'PUT' ? dbActionRaw : undefined;
+  const dbAction = dbActionRaw === 'GET' || dbActionRaw === 'PUT' || dbActionRaw === 'DELETE' ? dbActionRaw : undefined;
   const cacheHit = raw.cacheHit === true;
   const trieNodeId = asString(raw.activeNodeId) ?? asString(raw.nodeId);
   const consumed = asNumber(raw.consumed);
@@ -79,7 +79,7 @@ export function formatStep(rawStep: SimulationStep, index: number): FormattedSte
   let category: FormattedStep['category'] = 'trie';
   if (cacheHit) {
     category = 'cache';
-  } else if (dbAction || /db get|db put/i.test(message) || !!dbKey) {
+  } else if (dbAction || /db get|db put|db delete/i.test(message) || !!dbKey) {
     category = 'db';
   } else if (/root/i.test(title) || /root/i.test(message)) {
     category = 'root';
@@ -30,7 +30,7 @@ function step(partial: Partial<SimulationStep>): SimulationStep {
 describe('stepPedagogy', () => {
   it('infers branch decisions and nibble progress', () => {
     const steps: SimulationStep[] = [
-      step({ title: 'INSERT ACCOUNT', keyNibbles: [1, 2, 10, 4], consumed: 0 }),
+      step({ title: 'INSERT KEY', keyNibbles: [1, 2, 10, 4], consumed: 0 }),
       step({
         id: 1,
         title: 'VISIT',
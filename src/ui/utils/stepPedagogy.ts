@@ -1,4 +1,4 @@
-import type { SimulationStep } from '../../mpt/simulator';
+import type { SimulationMode, SimulationStep } from '../../mpt/simulator';
 import { bytesToHex, nibblesToString } from '../../mpt/bytes';
 
 export type ConceptType =
@@ -7,8 +7,12 @@ export type ConceptType =
   | 'Node Finalization'
   | 'DB Read'
   | 'DB Write'
+  | 'DB Delete'
   | 'Root Commit'
   | 'Result'
+  | 'Hash Link Check'
+  | 'Storage Root Link'
+  | 'Write Batch'
   | 'Setup';
 
 export interface StepImpact {
@@ -57,16 +61,28 @@ function parseBranchIndex(message: string): number | undefined {
 function inferConcept(step: SimulationStep, branchIndex?: number): ConceptType {
   const title = step.title.toLowerCase();
   const message = step.log.toLowerCase();
+  if (title.startsWith('batch ')) {
+    return 'Write Batch';
+  }
   if (step.dbAction === 'GET') {
     return step.cacheHit ? 'Traversal' : 'DB Read';
   }
   if (step.dbAction === 'PUT') {
     return 'DB Write';
   }
+  if (step.dbAction === 'DELETE') {
+    return 'DB Delete';
+  }
+  if (step.mode === 'prove' && message.startsWith('keccak(')) {
+    return 'Hash Link Check';
+  }
+  if (step.mode === 'sstore' && (title === 'storage root' || title === 'account update')) {
+    return 'Storage Root Link';
+  }
   if (title.includes('root') || message.includes('root')) {
     return 'Root Commit';
   }
-  if (title.includes('build start') || title.includes('insert account') || title.includes('lookup start') || title.includes('update start')) {
+  if (title === 'insert key' || title.endsWith(' start')) {
     return 'Setup';
   }
   if (title.includes('result') || message.includes('found') || message.includes('mismatch') || message.includes('complete')) {
@@ -81,14 +97,21 @@ function inferConcept(step: SimulationStep, branchIndex?: number): ConceptType {
   return 'Traversal';
 }
 
-function buildWhereLabel(step: SimulationStep, insertOrdinal: number, lookupOrdinal: number, updateOrdinal: number): string {
-  if (step.mode === 'insert') {
-    return insertOrdinal > 0 ? `Insert #${insertOrdinal}` : 'Insert';
-  }
-  if (step.mode === 'lookup') {
-    return lookupOrdinal > 0 ? `Lookup #${lookupOrdinal}` : 'Lookup';
-  }
-  return updateOrdinal > 0 ? `Update #${updateOrdinal}` : 'Update';
+const MODE_LABELS: Record<SimulationMode, string> = {
+  insert: 'Insert',
+  lookup: 'Lookup',
+  update: 'Update',
+  delete: 'Delete',
+  prove: 'Prove',
+  iterate: 'Iterate',
+  sstore: 'Storage write',
+  prune: 'Prune',
+  witness: 'Witness replay',
+};
+
+function buildWhereLabel(step: SimulationStep, ordinals: Record<SimulationMode, number>): string {
+  const ordinal = ordinals[step.mode];
+  return ordinal > 0 ? `${MODE_LABELS[step.mode]} #${ordinal}` : MODE_LABELS[step.mode];
 }
 
 function buildWhyText(step: SimulationStep, concept: ConceptType, branchIndex?: number): string {
@@ -100,6 +123,9 @@ function buildWhyText(step: SimulationStep, concept: ConceptType, branchIndex?:
   if (concept === 'DB Write') {
     return 'The node RLP is at least 32 bytes, so it is persisted and referenced by hash.';
   }
+  if (concept === 'DB Delete') {
+    return 'No retained root can reach this node any more, so removing its row cannot change any trie still in use.';
+  }
   if (concept === 'Node Finalization') {
     const refKind = step.activeNode?.refKind;
     if (refKind === 'embedded') {
@@ -110,6 +136,17 @@ function buildWhyText(step: SimulationStep, concept: ConceptType, branchIndex?:
   if (concept === 'Branch Decision') {
     return `Traversal consumes nibble ${branchIndex?.toString(16) ?? '?'} to choose the next branch child.`;
   }
+  if (concept === 'Hash Link Check') {
+    return 'The verifier re-hashes the shipped node and compares it with the reference its parent (or the trusted root) commits to.';
+  }
+  if (concept === 'Storage Root Link') {
+    return 'The account leaf stores only the storage trie root, so a slot change reaches the state root through the account leaf.';
+  }
+  if (concept === 'Write Batch') {
+    return step.title === 'BATCH ROLLBACK'
+      ? 'The staged writes are dropped together, so a failed operation leaves no half-written nodes in the DB.'
+      : 'Node writes are staged and flushed to the DB together, the way clients write a batch to LevelDB or Pebble.';
+  }
   if (concept === 'Root Commit') {
     return 'Any rewritten path node changes the root commitment that represents full trie state.';
   }
@@ -129,6 +166,9 @@ function buildWhatText(step: SimulationStep, concept: ConceptType): string {
   if (concept === 'DB Write') {
     return 'Persist node RLP into DB (hash -> RLP)';
   }
+  if (concept === 'DB Delete') {
+    return 'Remove unreachable node row from DB';
+  }
   return step.log;
 }
 
@@ -164,9 +204,17 @@ function isReferencedByActiveNode(step: SimulationStep): boolean {
 
 export function buildPedagogicalSteps(steps: SimulationStep[]): PedagogicalStep[] {
   const out: PedagogicalStep[] = [];
-  let insertOrdinal = 0;
-  let lookupOrdinal = 0;
-  let updateOrdinal = 0;
+  const ordinals: Record<SimulationMode, number> = {
+    insert: 0,
+    lookup: 0,
+    update: 0,
+    delete: 0,
+    prove: 0,
+    iterate: 0,
+    sstore: 0,
+    prune: 0,
+    witness: 0,
+  };
   let fullKey: number[] = [];
 
   for (let index = 0; index < steps.length; index += 1) {
@@ -174,20 +222,10 @@ export function buildPedagogicalSteps(steps: SimulationStep[]): PedagogicalStep[
     const prev = index > 0 ? steps[index - 1] : undefined;
     const titleUpper = step.title.toUpperCase();
 
-    if (titleUpper.includes('INSERT ACCOUNT') || titleUpper.includes('BUILD START')) {
-      if (titleUpper.includes('INSERT ACCOUNT')) {
-        insertOrdinal += 1;
-      }
-      if (step.keyNibbles.length > 0) {
-        fullKey = [...step.keyNibbles];
-      }
-    } else if (titleUpper.includes('LOOKUP START')) {
-      lookupOrdinal += 1;
-      if (step.keyNibbles.length > 0) {
-        fullKey = [...step.keyNibbles];
+    if (titleUpper === 'INSERT KEY' || titleUpper === 'ACCOUNT UPDATE' || titleUpper.endsWith(' START')) {
+      if (titleUpper !== 'ACCOUNT UPDATE' && !titleUpper.includes('BUILD START') && !titleUpper.includes('VERIFY START')) {
+        ordinals[step.mode] += 1;
       }
-    } else if (titleUpper.includes('UPDATE START')) {
-      updateOrdinal += 1;
       if (step.keyNibbles.length > 0) {
         fullKey = [...step.keyNibbles];
       }
@@ -205,7 +243,7 @@ export function buildPedagogicalSteps(steps: SimulationStep[]): PedagogicalStep[
     const concept = inferConcept(step, branchIndex);
     const impact: StepImpact = {
       trieChanged: step.changedNodeIds.length > 0 || concept === 'Node Finalization',
-      dbChanged: step.dbAction === 'PUT' || concept === 'DB Write',
+      dbChanged: step.dbAction === 'PUT' || step.dbAction === 'DELETE' || concept === 'DB Write',
       rootChanged: !!prev && toHexKey(prev.rootRef) !== toHexKey(step.rootRef),
     };
 
@@ -216,7 +254,7 @@ export function buildPedagogicalSteps(steps: SimulationStep[]): PedagogicalStep[
           ? fullKey[consumedCount]
           : undefined;
 
-    const whereLabel = buildWhereLabel(step, insertOrdinal, lookupOrdinal, updateOrdinal);
+    const whereLabel = buildWhereLabel(step, ordinals);
     const whatText = buildWhatText(step, concept);
     const whyText = buildWhyText(step, concept, branchIndex);
     const conciseText = `${concept}: ${whatText}`;